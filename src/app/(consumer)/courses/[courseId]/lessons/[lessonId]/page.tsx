@@ -0,0 +1,183 @@
+import { ActionButton } from "@/components/ActionButton";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getPublishedCourse } from "@/features/courses/db/revisions";
+import { getUserCourseAccesses } from "@/features/courses/db/userCourseAccess";
+import { isAccessActive } from "@/features/courses/lib/accessExpiry";
+import {
+  getLessonDripDays,
+  getLessonUnlocksAt,
+  isLessonUnlocked,
+} from "@/features/courses/lib/drip";
+import { updateLessonCompleteStatus } from "@/features/lessons/actions/userLessonComplete";
+import LessonSidebar from "@/features/lessons/components/LessonSidebar";
+import YouTubeVideoPlayer from "@/features/lessons/components/YouTubeVideoPlayer";
+import { getPublishedLesson } from "@/features/lessons/db/lessons";
+import { getCompletedLessonIds } from "@/features/lessons/db/userLessonComplete";
+import { formatDate } from "@/lib/formatter";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { LessonStatus } from "@/drizzle/schema";
+import { ChevronLeftIcon, ChevronRightIcon, LockIcon } from "lucide-react";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const LessonPage = async ({
+  params,
+}: {
+  params: Promise<{ courseId: string; lessonId: string }>;
+}) => {
+  const { courseId, lessonId } = await params;
+  const [course, lesson, user] = await Promise.all([
+    getPublishedCourse(courseId),
+    getPublishedLesson({ courseId, lessonId }),
+    getCurrentUser(),
+  ]);
+
+  if (course == null || lesson == null) {
+    return notFound();
+  }
+
+  const [courseAccesses, completedLessonIds] =
+    user.userId == null
+      ? [[], []]
+      : await Promise.all([
+          getUserCourseAccesses(user.userId),
+          getCompletedLessonIds(user.userId),
+        ]);
+  const courseAccess = courseAccesses.find(
+    (access) => access.courseId === course.id
+  );
+  const hasCourseAccess =
+    courseAccess != null && isAccessActive(courseAccess.expiresAt);
+  const canView = await can(user, "read", { type: "lesson", ...lesson });
+  const isComplete = completedLessonIds.includes(lesson.id);
+
+  // Only set for lessons the learner has bought but that are still dripping.
+  function getLockedUntil(status: LessonStatus, dripDays: number | null) {
+    if (!hasCourseAccess || status !== "public") return null;
+
+    const unlocksAt = getLessonUnlocksAt(courseAccess.createdAt, dripDays);
+    return isLessonUnlocked(unlocksAt) ? null : unlocksAt;
+  }
+  const lockedUntil = getLockedUntil(lesson.status, lesson.dripDays);
+
+  const lessons = course.sections.flatMap((section) => section.lessons);
+  const lessonIndex = lessons.findIndex(({ id }) => id === lesson.id);
+  const previousLesson = lessons[lessonIndex - 1];
+  const nextLesson = lessons[lessonIndex + 1];
+
+  return (
+    <div className="container my-6 grid lg:grid-cols-[1fr_300px] gap-8 items-start">
+      <div className="flex flex-col gap-4">
+        {canView ? (
+          lesson.youtubeVideoId != null && (
+            <YouTubeVideoPlayer
+              videoId={lesson.youtubeVideoId}
+              title={lesson.name}
+            />
+          )
+        ) : (
+          <Card>
+            <CardHeader className="items-center text-center">
+              <LockIcon className="size-8 text-muted-foreground mx-auto" />
+              <CardTitle>This lesson is locked</CardTitle>
+              <CardDescription>
+                {lockedUntil != null
+                  ? `This lesson unlocks on ${formatDate(lockedUntil)}.`
+                  : courseAccess?.expiresAt != null && !hasCourseAccess
+                    ? `Your access to ${course.title} expired on ${formatDate(courseAccess.expiresAt)}. Purchase it again to keep watching.`
+                    : `Purchase ${course.title} to watch every lesson.`}
+              </CardDescription>
+              {lockedUntil == null && (
+                <Button asChild className="mx-auto mt-2">
+                  <Link href="/">Browse Courses</Link>
+                </Button>
+              )}
+            </CardHeader>
+          </Card>
+        )}
+
+        <div className="flex flex-wrap gap-4 items-start justify-between">
+          <h1 className="text-2xl font-semibold">{lesson.name}</h1>
+          {canView && user.userId != null && (
+            <ActionButton
+              variant="outline"
+              action={updateLessonCompleteStatus.bind(
+                null,
+                lesson.id,
+                !isComplete
+              )}
+            >
+              {isComplete ? "Mark Incomplete" : "Mark Complete"}
+            </ActionButton>
+          )}
+        </div>
+
+        {canView && lesson.description && (
+          <p className="whitespace-pre-wrap text-muted-foreground">
+            {lesson.description}
+          </p>
+        )}
+
+        <div className="flex gap-4 justify-between">
+          {previousLesson != null ? (
+            <Button variant="outline" asChild>
+              <Link href={`/courses/${course.id}/lessons/${previousLesson.id}`}>
+                <ChevronLeftIcon />
+                {previousLesson.name}
+              </Link>
+            </Button>
+          ) : (
+            <div />
+          )}
+          {nextLesson != null && (
+            <Button variant="outline" asChild>
+              <Link href={`/courses/${course.id}/lessons/${nextLesson.id}`}>
+                {nextLesson.name}
+                <ChevronRightIcon />
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <aside className="flex flex-col gap-4">
+        <Link href="/courses" className="text-lg font-semibold hover:underline">
+          {course.title}
+        </Link>
+        <LessonSidebar
+          courseId={course.id}
+          activeLessonId={lesson.id}
+          sections={course.sections.map((section) => ({
+            id: section.id,
+            name: section.name,
+            lessons: section.lessons.map((sectionLesson) => {
+              const lockedUntil = getLockedUntil(
+                sectionLesson.status,
+                getLessonDripDays(section, sectionLesson)
+              );
+
+              return {
+                id: sectionLesson.id,
+                name: sectionLesson.name,
+                isLocked:
+                  lockedUntil != null ||
+                  (sectionLesson.status !== "preview" && !hasCourseAccess),
+                lockedUntil,
+                isComplete: completedLessonIds.includes(sectionLesson.id),
+              };
+            }),
+          }))}
+        />
+      </aside>
+    </div>
+  );
+};
+
+export default LessonPage;
@@ -0,0 +1,167 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { db } from "@/drizzle/db";
+import { UserCourseAccessTable } from "@/drizzle/schema";
+import { getCourseGlobalTag } from "@/features/courses/db/cache/courses";
+import { getUserCourseAccessUserTag } from "@/features/courses/db/cache/userCourseAccess";
+import { isAccessActive } from "@/features/courses/lib/accessExpiry";
+import {
+  getLessonDripDays,
+  getLessonUnlocksAt,
+  isLessonUnlocked,
+} from "@/features/courses/lib/drip";
+import { getLearnerCourse } from "@/features/courses/lib/revisions";
+import { getCompletedLessonIds } from "@/features/lessons/db/userLessonComplete";
+import { formatDate, formatPlural } from "@/lib/formatter";
+import { getCurrentUser } from "@/services/clerk";
+import { desc, eq } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import Link from "next/link";
+
+const MyCoursesPage = async () => {
+  const { userId, redirectToSignIn } = await getCurrentUser();
+  if (userId == null) return redirectToSignIn();
+
+  const [courses, completedLessonIds] = await Promise.all([
+    getUserCourses(userId),
+    getCompletedLessonIds(userId).then((ids) => new Set(ids)),
+  ]);
+
+  return (
+    <div className="container my-6">
+      <PageHeader title="My Courses" />
+
+      {courses.length === 0 ? (
+        <div className="flex flex-col gap-2 items-start">
+          You do not have access to any courses yet
+          <Button asChild size="lg">
+            <Link href="/">Browse Courses</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {courses.map((course) => {
+            const lessons = course.sections.flatMap((section) =>
+              section.lessons.map((lesson) => ({
+                ...lesson,
+                dripDays: getLessonDripDays(section, lesson),
+              }))
+            );
+            const completedCount = lessons.filter((lesson) =>
+              completedLessonIds.has(lesson.id)
+            ).length;
+            const progress =
+              lessons.length === 0
+                ? 0
+                : Math.round((completedCount / lessons.length) * 100);
+            // Lessons still held back by drip are skipped, and it falls back to
+            // the first lesson once every unlocked lesson is complete.
+            const nextLesson =
+              lessons.find(
+                (lesson) =>
+                  !completedLessonIds.has(lesson.id) &&
+                  (lesson.status === "preview" ||
+                    isLessonUnlocked(
+                      getLessonUnlocksAt(
+                        course.accessCreatedAt,
+                        lesson.dripDays
+                      )
+                    ))
+              ) ?? lessons[0];
+            const isActive = isAccessActive(course.expiresAt);
+
+            return (
+              <Card key={course.id}>
+                <CardHeader>
+                  <CardTitle className="text-xl">{course.title}</CardTitle>
+                  <CardDescription className="line-clamp-3">
+                    {course.description}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-2">
+                  <div className="flex gap-2 justify-between text-sm text-muted-foreground">
+                    <div>
+                      {completedCount} of{" "}
+                      {formatPlural(lessons.length, {
+                        singular: "lesson",
+                        plural: "lessons",
+                      })}{" "}
+                      complete
+                    </div>
+                    <div>{progress}%</div>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary"
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                  {course.expiresAt != null && (
+                    <div
+                      className={
+                        isActive
+                          ? "text-sm text-muted-foreground"
+                          : "text-sm text-destructive"
+                      }
+                    >
+                      {isActive ? "Access expires on" : "Access expired on"}{" "}
+                      {formatDate(course.expiresAt)}
+                    </div>
+                  )}
+                </CardContent>
+                <CardFooter className="mt-auto">
+                  {isActive && nextLesson != null && (
+                    <Button asChild className="w-full">
+                      <Link
+                        href={`/courses/${course.id}/lessons/${nextLesson.id}`}
+                      >
+                        {completedCount === 0
+                          ? "Start Course"
+                          : completedCount === lessons.length
+                            ? "Review Course"
+                            : "Continue Where You Left Off"}
+                      </Link>
+                    </Button>
+                  )}
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyCoursesPage;
+
+async function getUserCourses(userId: string) {
+  "use cache";
+  cacheTag(getUserCourseAccessUserTag(userId), getCourseGlobalTag());
+
+  const accesses = await db.query.UserCourseAccessTable.findMany({
+    columns: { expiresAt: true, createdAt: true },
+    where: eq(UserCourseAccessTable.userId, userId),
+    orderBy: desc(UserCourseAccessTable.createdAt),
+    with: {
+      course: {
+        columns: { id: true, title: true, description: true },
+        with: { publishedRevision: { columns: { content: true } } },
+      },
+    },
+  });
+
+  return accesses.map(({ course, expiresAt, createdAt }) => ({
+    ...getLearnerCourse(course),
+    expiresAt,
+    accessCreatedAt: createdAt,
+  }));
+}
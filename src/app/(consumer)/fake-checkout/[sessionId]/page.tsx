@@ -0,0 +1,69 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { env } from "@/data/env/server";
+import { formatSubscriptionInterval } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import {
+  completeFakeCheckoutSession,
+  getFakeCheckoutSession,
+} from "@/services/payments/fake";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+// Stand-in for a hosted checkout page, only reachable while the fake
+// payment provider is enabled.
+const FakeCheckoutPage = async ({
+  params,
+}: {
+  params: Promise<{ sessionId: string }>;
+}) => {
+  const { sessionId } = await params;
+  if (env.PAYMENT_PROVIDER !== "fake") return notFound();
+
+  const session = getFakeCheckoutSession(sessionId);
+  if (session == null) return notFound();
+
+  async function pay() {
+    "use server";
+
+    const completedSession = completeFakeCheckoutSession(sessionId);
+    if (completedSession == null) return notFound();
+
+    redirect(completedSession.successUrl);
+  }
+
+  return (
+    <div className="container my-6 max-w-md">
+      <PageHeader title="Fake Checkout" />
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Pay {formatMoney(session.amountTotalInCents, session.currency)}
+            {session.subscriptionInterval != null &&
+              ` ${formatSubscriptionInterval(session.subscriptionInterval)}`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="text-muted-foreground">
+          No real payment will be made.
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" asChild>
+            <Link href={session.cancelUrl}>Cancel</Link>
+          </Button>
+          <form action={pay}>
+            <Button type="submit">Pay</Button>
+          </form>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default FakeCheckoutPage;
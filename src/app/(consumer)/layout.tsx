@@ -1,5 +1,5 @@
 import { Button } from "@/components/ui/button";
-import { canAccessAdminPages } from "@/permissions/general";
+import { can } from "@/permissions/policy";
 import { getCurrentUser } from "@/services/clerk";
 import { SignedIn, SignedOut, SignInButton, UserButton } from "@clerk/nextjs";
 import Link from "next/link";
@@ -38,6 +38,13 @@ function Navbar() {
             My Courses
           </Link>
 
+          <Link
+            href="/redeem"
+            className="hover:bg-accent/10 flex items-center px-2"
+          >
+            Redeem Gift
+          </Link>
+
           <Link
             href="/purchases"
             className="hover:bg-accent/10 flex items-center px-2"
@@ -73,7 +80,7 @@ async function AdminLink() {
   const user = await getCurrentUser();
   console.log("user", user);
 
-  if (!canAccessAdminPages(user)) return null;
+  if (!(await can(user, "read", "adminPages"))) return null;
 
   return (
     <Link href="/admin" className="hover:bg-accent/10 flex items-center px-2">
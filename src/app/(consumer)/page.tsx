@@ -1,3 +1,90 @@
-export default function HomePage() {
-  return <main>Home Page</main>;
+import { db } from "@/drizzle/db";
+import { ProductTable } from "@/drizzle/schema";
+import { getCourseGlobalTag } from "@/features/courses/db/cache/courses";
+import { getUserCourseIds } from "@/features/courses/db/userCourseAccess";
+import { getLearnerCourse } from "@/features/courses/lib/revisions";
+import ProductCard from "@/features/products/components/ProductCard";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import { getCatalogProductWhere } from "@/features/products/lib/catalog";
+import { getCurrentUser } from "@/services/clerk";
+import { asc } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+
+export default async function HomePage() {
+  const [products, { userId }] = await Promise.all([
+    getPublicProducts(),
+    getCurrentUser(),
+  ]);
+  const ownedCourseIds = new Set(
+    userId == null ? [] : await getUserCourseIds(userId)
+  );
+
+  return (
+    <div className="container my-6">
+      {products.length === 0 ? (
+        <div className="text-muted-foreground">
+          There are no courses available yet
+        </div>
+      ) : (
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {products.map((product) => (
+            <ProductCard
+              key={product.id}
+              product={product}
+              isOwned={
+                product.courses.length > 0 &&
+                product.courses.every((course) => ownedCourseIds.has(course.id))
+              }
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+async function getPublicProducts() {
+  "use cache";
+  cacheTag(getProductGlobalTag(), getCourseGlobalTag());
+
+  const products = await db.query.ProductTable.findMany({
+    columns: {
+      id: true,
+      name: true,
+      description: true,
+      imageUrl: true,
+      priceInCents: true,
+      currency: true,
+      subscriptionInterval: true,
+    },
+    where: getCatalogProductWhere(),
+    orderBy: asc(ProductTable.name),
+    with: {
+      courseProducts: {
+        columns: {},
+        with: {
+          course: {
+            columns: { id: true, title: true, description: true },
+            with: { publishedRevision: { columns: { content: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  return products.map(({ courseProducts, ...product }) => ({
+    ...product,
+    courses: courseProducts.map(({ course }) => {
+      const { id, title, sections } = getLearnerCourse(course);
+      return {
+        id,
+        name: title,
+        sectionsCount: sections.length,
+        lessonsCount: sections.reduce(
+          (lessonsCount, section) => lessonsCount + section.lessons.length,
+          0
+        ),
+      };
+    }),
+  }));
 }
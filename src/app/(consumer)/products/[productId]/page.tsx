@@ -0,0 +1,205 @@
+import PageHeader from "@/components/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { db } from "@/drizzle/db";
+import { ProductTable } from "@/drizzle/schema";
+import { getCourseGlobalTag } from "@/features/courses/db/cache/courses";
+import { getUserCourseIds } from "@/features/courses/db/userCourseAccess";
+import { getLearnerCourse } from "@/features/courses/lib/revisions";
+import { getProductIdTag } from "@/features/products/db/cache";
+import { getUpgradeCreditInCents } from "@/features/products/db/products";
+import { getCatalogProductWhere } from "@/features/products/lib/catalog";
+import {
+  formatAccessDuration,
+  formatPlural,
+  formatSubscriptionInterval,
+} from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import { getCurrentUser } from "@/services/clerk";
+import { and, eq } from "drizzle-orm";
+import { VideoIcon } from "lucide-react";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const ProductPage = async ({
+  params,
+}: {
+  params: Promise<{ productId: string }>;
+}) => {
+  const { productId } = await params;
+  const [product, { userId }] = await Promise.all([
+    getPublicProduct(productId),
+    getCurrentUser(),
+  ]);
+
+  if (!product) return notFound();
+
+  const ownedCourseIds = new Set(
+    userId == null ? [] : await getUserCourseIds(userId)
+  );
+  const isOwned =
+    product.courses.length > 0 &&
+    product.courses.every((course) => ownedCourseIds.has(course.id));
+  const upgradeCreditInCents =
+    userId == null || isOwned
+      ? 0
+      : await getUpgradeCreditInCents({
+          userId,
+          productId,
+          priceInCents: product.priceInCents,
+          currency: product.currency,
+        });
+
+  return (
+    <div className="container my-6 flex flex-col gap-8">
+      <div className="flex flex-col md:flex-row gap-8 items-start">
+        <Image
+          className="object-cover rounded-lg w-full md:w-96 aspect-video"
+          src={product.imageUrl}
+          alt={product.name}
+          width={768}
+          height={432}
+          unoptimized
+        />
+        <div className="flex flex-col gap-4 items-start">
+          <PageHeader title={product.name} className="mb-0" />
+          <div className="text-muted-foreground">{product.description}</div>
+          <div className="flex gap-2 items-baseline">
+            <div className="text-xl font-semibold">
+              {upgradeCreditInCents > 0 && (
+                <span className="text-base font-normal text-muted-foreground line-through mr-2">
+                  {formatMoney(product.priceInCents, product.currency)}
+                </span>
+              )}
+              {formatMoney(
+                product.priceInCents - upgradeCreditInCents,
+                product.currency
+              )}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {product.subscriptionInterval != null
+                ? formatSubscriptionInterval(product.subscriptionInterval)
+                : formatAccessDuration(product.accessDurationMonths)}
+            </div>
+          </div>
+          {upgradeCreditInCents > 0 && (
+            <div className="text-sm text-muted-foreground">
+              Upgrade price, credited with what you paid for included courses
+            </div>
+          )}
+          {isOwned ? (
+            <div className="flex gap-4 items-center">
+              <Badge>Owned</Badge>
+              <Button asChild>
+                <Link href="/courses">Go to My Courses</Link>
+              </Button>
+            </div>
+          ) : (
+            <Button asChild size="lg">
+              <Link href={`/products/${product.id}/purchase`}>
+                {product.subscriptionInterval != null ? "Subscribe" : "Get Now"}
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <h2 className="text-xl font-semibold">Included Courses</h2>
+        {product.courses.map((course) => (
+          <Card key={course.id}>
+            <CardHeader>
+              <CardTitle className="text-lg">{course.title}</CardTitle>
+              <CardDescription>{course.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-4">
+              {course.sections.map((section) => (
+                <div key={section.id} className="flex flex-col gap-2">
+                  <div className="flex gap-2 items-baseline justify-between">
+                    <div className="font-semibold">{section.name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {formatPlural(section.lessons.length, {
+                        singular: "lesson",
+                        plural: "lessons",
+                      })}
+                    </div>
+                  </div>
+                  {section.lessons.map((lesson) => (
+                    <div
+                      key={lesson.id}
+                      className="flex gap-2 items-center text-sm"
+                    >
+                      <VideoIcon className="size-4 text-muted-foreground" />
+                      {lesson.status === "preview" ? (
+                        <>
+                          <Link
+                            href={`/courses/${course.id}/lessons/${lesson.id}`}
+                            className="hover:underline"
+                          >
+                            {lesson.name}
+                          </Link>
+                          <Badge variant="outline">Preview</Badge>
+                        </>
+                      ) : (
+                        lesson.name
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProductPage;
+
+async function getPublicProduct(id: string) {
+  "use cache";
+  cacheTag(getProductIdTag(id), getCourseGlobalTag());
+
+  const product = await db.query.ProductTable.findFirst({
+    columns: {
+      id: true,
+      name: true,
+      description: true,
+      imageUrl: true,
+      priceInCents: true,
+      currency: true,
+      accessDurationMonths: true,
+      subscriptionInterval: true,
+    },
+    where: and(eq(ProductTable.id, id), getCatalogProductWhere()),
+    with: {
+      courseProducts: {
+        columns: {},
+        with: {
+          course: {
+            columns: { id: true, title: true, description: true },
+            with: { publishedRevision: { columns: { content: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  if (product == null) return null;
+
+  const { courseProducts, ...rest } = product;
+  return {
+    ...rest,
+    courses: courseProducts.map(({ course }) => getLearnerCourse(course)),
+  };
+}
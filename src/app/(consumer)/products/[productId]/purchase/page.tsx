@@ -0,0 +1,157 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { db } from "@/drizzle/db";
+import { ProductTable } from "@/drizzle/schema";
+import { getCourseGlobalTag } from "@/features/courses/db/cache/courses";
+import { getProductIdTag } from "@/features/products/db/cache";
+import {
+  getUpgradeCreditInCents,
+  userOwnsProduct,
+} from "@/features/products/db/products";
+import {
+  getProductCurrencies,
+  getProductPrice,
+} from "@/features/products/lib/pricing";
+import { getCatalogProductWhere } from "@/features/products/lib/catalog";
+import CheckoutForm from "@/features/purchases/components/CheckoutForm";
+import { checkoutSearchParamsSchema } from "@/features/purchases/schemas/purchases";
+import { formatSubscriptionInterval } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import { getCurrentUser } from "@/services/clerk";
+import { SignInButton } from "@clerk/nextjs";
+import { and, eq } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+const PurchasePage = async ({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ productId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) => {
+  const { productId } = await params;
+  const { currency } = checkoutSearchParamsSchema.parse(await searchParams);
+  const [product, { userId }] = await Promise.all([
+    getPublicProduct(productId),
+    getCurrentUser(),
+  ]);
+
+  if (!product) return notFound();
+
+  // Owners can still buy the product for someone else as a gift.
+  const ownsProduct =
+    userId != null && (await userOwnsProduct({ userId, productId }));
+  if (ownsProduct && product.subscriptionInterval != null) {
+    redirect("/courses");
+  }
+
+  const price = getProductPrice(product, currency);
+  const upgradeCreditInCents =
+    userId == null || ownsProduct
+      ? 0
+      : await getUpgradeCreditInCents({ userId, productId, ...price });
+  const productCurrencies = getProductCurrencies(product);
+
+  return (
+    <div className="container my-6 max-w-2xl">
+      <PageHeader title="Checkout" />
+      <Card>
+        <CardHeader className="flex flex-row gap-4 items-start">
+          <Image
+            className="object-cover rounded size-24"
+            src={product.imageUrl}
+            alt={product.name}
+            width={192}
+            height={192}
+            unoptimized
+          />
+          <div className="flex flex-col gap-2">
+            <CardTitle>{product.name}</CardTitle>
+            <CardDescription>{product.description}</CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {productCurrencies.length > 1 && (
+            <div className="flex gap-2">
+              {productCurrencies.map((productCurrency) => (
+                <Button
+                  key={productCurrency}
+                  size="sm"
+                  variant={
+                    productCurrency === price.currency ? "default" : "outline"
+                  }
+                  asChild
+                >
+                  <Link
+                    href={`/products/${productId}/purchase?currency=${productCurrency}`}
+                  >
+                    {productCurrency.toUpperCase()}
+                  </Link>
+                </Button>
+              ))}
+            </div>
+          )}
+          {userId == null ? (
+            <div className="flex items-center justify-between gap-4">
+              <div className="text-xl font-semibold">
+                {formatMoney(price.priceInCents, price.currency)}
+                {product.subscriptionInterval != null && (
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {" "}
+                    {formatSubscriptionInterval(product.subscriptionInterval)}
+                  </span>
+                )}
+              </div>
+              <Button asChild>
+                <SignInButton
+                  forceRedirectUrl={`/products/${productId}/purchase`}
+                >
+                  Sign in to purchase
+                </SignInButton>
+              </Button>
+            </div>
+          ) : (
+            <CheckoutForm
+              key={price.currency}
+              product={product}
+              price={price}
+              upgradeCreditInCents={upgradeCreditInCents}
+              giftOnly={ownsProduct}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PurchasePage;
+
+async function getPublicProduct(id: string) {
+  "use cache";
+  cacheTag(getProductIdTag(id), getCourseGlobalTag());
+
+  return db.query.ProductTable.findFirst({
+    columns: {
+      id: true,
+      name: true,
+      description: true,
+      imageUrl: true,
+      priceInCents: true,
+      currency: true,
+      subscriptionInterval: true,
+    },
+    where: and(eq(ProductTable.id, id), getCatalogProductWhere()),
+    with: { prices: { columns: { currency: true, priceInCents: true } } },
+  });
+}
@@ -0,0 +1,20 @@
+import { Button } from "@/components/ui/button";
+import Link from "next/link";
+
+const PurchaseSuccessPage = () => {
+  return (
+    <div className="container my-6">
+      <div className="flex flex-col gap-4 items-start">
+        <h1 className="text-3xl font-semibold">Purchase Successful</h1>
+        <p className="text-muted-foreground">
+          Thank you for your purchase, your courses are ready.
+        </p>
+        <Button asChild>
+          <Link href="/courses">View My Courses</Link>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseSuccessPage;
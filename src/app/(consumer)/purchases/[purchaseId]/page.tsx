@@ -0,0 +1,146 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { env } from "@/data/env/client";
+import {
+  GiftStatus,
+  PurchaseAmount,
+} from "@/features/purchases/components/PurchaseTable";
+import { getPurchase } from "@/features/purchases/db/purchases";
+import { formatDate, formatReceiptNumber } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { DownloadIcon } from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const PurchasePage = async ({
+  params,
+}: {
+  params: Promise<{ purchaseId: string }>;
+}) => {
+  const user = await getCurrentUser();
+  if (user.userId == null) return user.redirectToSignIn();
+
+  const { purchaseId } = await params;
+  const purchase = await getPurchase(purchaseId);
+
+  if (
+    !purchase ||
+    !(await can(user, "read", { type: "purchase", userId: purchase.userId }))
+  ) {
+    return notFound();
+  }
+
+  return (
+    <div className="container my-6 max-w-2xl">
+      <PageHeader title="Receipt">
+        {purchase.receiptNumber != null && (
+          <Button variant="outline" asChild>
+            <a href={`/purchases/${purchase.id}/receipt`} download>
+              <DownloadIcon />
+              Download PDF
+            </a>
+          </Button>
+        )}
+      </PageHeader>
+
+      <Card>
+        <CardHeader className="flex flex-row gap-4 items-start">
+          <Image
+            className="object-cover rounded size-24"
+            src={purchase.productDetails.imageUrl}
+            alt={purchase.productDetails.name}
+            width={192}
+            height={192}
+            unoptimized
+          />
+          <div className="flex flex-col gap-2">
+            <CardTitle>{purchase.productDetails.name}</CardTitle>
+            <PurchaseAmount purchase={purchase} />
+          </div>
+        </CardHeader>
+        <CardContent className="grid grid-cols-[auto_1fr] gap-x-8 gap-y-2 text-sm">
+          {purchase.receiptNumber != null && (
+            <>
+              <div className="text-muted-foreground">Receipt number</div>
+              <div>{formatReceiptNumber(purchase.receiptNumber)}</div>
+            </>
+          )}
+          <div className="text-muted-foreground">Date</div>
+          <div>{formatDate(purchase.createdAt)}</div>
+          <div className="text-muted-foreground">Billed to</div>
+          <div>
+            {purchase.user.name} ({purchase.user.email})
+          </div>
+          {purchase.giftCode != null && (
+            <>
+              <div className="text-muted-foreground">Gift code</div>
+              <div className="flex flex-col gap-1 items-start">
+                <span className="font-mono font-semibold">
+                  {purchase.giftCode}
+                </span>
+                {purchase.giftRedeemedAt == null && (
+                  <span className="text-muted-foreground">
+                    Share this code with the recipient so they can redeem it at{" "}
+                    {env.NEXT_PUBLIC_SERVER_URL}/redeem
+                  </span>
+                )}
+                <GiftStatus
+                  purchase={{ ...purchase, isGift: purchase.giftCode != null }}
+                />
+              </div>
+            </>
+          )}
+          {purchase.accessExpiresAt != null && (
+            <>
+              <div className="text-muted-foreground">Access until</div>
+              <div>{formatDate(purchase.accessExpiresAt)}</div>
+            </>
+          )}
+          {purchase.upgradeCreditInCents > 0 && (
+            <>
+              <div className="text-muted-foreground">Upgrade credit</div>
+              <div>
+                {formatMoney(purchase.upgradeCreditInCents, purchase.currency)}
+              </div>
+            </>
+          )}
+          {purchase.refundedAmountInCents > 0 && (
+            <>
+              <div className="text-muted-foreground">Refunded</div>
+              <div>
+                {formatMoney(purchase.refundedAmountInCents, purchase.currency)}
+                {purchase.refundedAt != null &&
+                  ` on ${formatDate(purchase.refundedAt)}`}
+              </div>
+            </>
+          )}
+          <div className="text-muted-foreground">Total</div>
+          <div className="font-semibold">
+            {formatMoney(
+              purchase.pricePaidInCents - purchase.refundedAmountInCents,
+              purchase.currency,
+              { showZeroAsNumber: true }
+            )}
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button variant="outline" asChild>
+            <Link href="/purchases">Back to Purchases</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default PurchasePage;
@@ -0,0 +1,36 @@
+import { getPurchase } from "@/features/purchases/db/purchases";
+import { createReceiptPdf } from "@/features/purchases/lib/receiptPdf";
+import { formatReceiptNumber } from "@/lib/formatter";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { NextRequest } from "next/server";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ purchaseId: string }> }
+) {
+  const user = await getCurrentUser();
+  if (user.userId == null) return new Response(null, { status: 401 });
+
+  const { purchaseId } = await params;
+  const purchase = await getPurchase(purchaseId);
+
+  if (
+    purchase?.receiptNumber == null ||
+    !(await can(user, "read", { type: "purchase", userId: purchase.userId }))
+  ) {
+    return new Response(null, { status: 404 });
+  }
+
+  const pdf = await createReceiptPdf({
+    ...purchase,
+    receiptNumber: purchase.receiptNumber,
+  });
+
+  return new Response(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="receipt-${formatReceiptNumber(purchase.receiptNumber)}.pdf"`,
+    },
+  });
+}
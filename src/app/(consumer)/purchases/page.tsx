@@ -0,0 +1,143 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { db } from "@/drizzle/db";
+import {
+  PurchaseTable,
+  SubscriptionTable as DbSubscriptionTable,
+} from "@/drizzle/schema";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import {
+  GiftStatus,
+  PurchaseAmount,
+} from "@/features/purchases/components/PurchaseTable";
+import { getPurchaseUserTag } from "@/features/purchases/db/cache";
+import SubscriptionTable from "@/features/subscriptions/components/SubscriptionTable";
+import { getSubscriptionUserTag } from "@/features/subscriptions/db/cache";
+import { formatDate } from "@/lib/formatter";
+import { getCurrentUser } from "@/services/clerk";
+import { desc, eq } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import Link from "next/link";
+
+const PurchasesPage = async () => {
+  const { userId, redirectToSignIn } = await getCurrentUser();
+  if (userId == null) return redirectToSignIn();
+
+  const [purchases, subscriptions] = await Promise.all([
+    getPurchases(userId),
+    getSubscriptions(userId),
+  ]);
+
+  return (
+    <div className="container my-6">
+      <PageHeader title="Purchase History" />
+
+      {subscriptions.length > 0 && (
+        <div className="mb-8">
+          <SubscriptionTable subscriptions={subscriptions} />
+        </div>
+      )}
+
+      {purchases.length === 0 && subscriptions.length === 0 ? (
+        <div className="flex flex-col gap-2 items-start">
+          You have made no purchases yet
+          <Button asChild size="lg">
+            <Link href="/">Browse Courses</Link>
+          </Button>
+        </div>
+      ) : (
+        purchases.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {purchases.map((purchase) => (
+                <TableRow key={purchase.id}>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <div className="font-semibold">
+                        {purchase.productDetails.name}
+                      </div>
+                      <GiftStatus
+                        purchase={{
+                          ...purchase,
+                          isGift: purchase.giftCode != null,
+                        }}
+                      />
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatDate(purchase.createdAt)}</TableCell>
+                  <TableCell>
+                    <PurchaseAmount purchase={purchase} />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="outline" asChild>
+                      <Link href={`/purchases/${purchase.id}`}>
+                        View Receipt
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )
+      )}
+    </div>
+  );
+};
+
+export default PurchasesPage;
+
+async function getPurchases(userId: string) {
+  "use cache";
+  cacheTag(getPurchaseUserTag(userId));
+
+  return db.query.PurchaseTable.findMany({
+    columns: {
+      id: true,
+      pricePaidInCents: true,
+      currency: true,
+      refundedAmountInCents: true,
+      refundedAt: true,
+      giftCode: true,
+      giftRedeemedAt: true,
+      productDetails: true,
+      createdAt: true,
+    },
+    where: eq(PurchaseTable.userId, userId),
+    orderBy: desc(PurchaseTable.createdAt),
+    with: { giftRedeemedBy: { columns: { name: true, email: true } } },
+  });
+}
+
+async function getSubscriptions(userId: string) {
+  "use cache";
+  cacheTag(getSubscriptionUserTag(userId), getProductGlobalTag());
+
+  return db.query.SubscriptionTable.findMany({
+    columns: {
+      id: true,
+      status: true,
+      currentPeriodEnd: true,
+      cancelAtPeriodEnd: true,
+    },
+    where: eq(DbSubscriptionTable.userId, userId),
+    orderBy: desc(DbSubscriptionTable.createdAt),
+    with: { product: { columns: { name: true } } },
+  });
+}
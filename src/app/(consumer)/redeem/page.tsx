@@ -0,0 +1,29 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import RedeemGiftForm from "@/features/purchases/components/RedeemGiftForm";
+import { getCurrentUser } from "@/services/clerk";
+import { SignInButton } from "@clerk/nextjs";
+
+const RedeemPage = async () => {
+  const { userId } = await getCurrentUser();
+
+  return (
+    <div className="container my-6 max-w-2xl">
+      <PageHeader title="Redeem a Gift" />
+      {userId == null ? (
+        <div className="flex flex-col gap-2 items-start">
+          Sign in to add the gifted courses to your account
+          <Button asChild>
+            <SignInButton forceRedirectUrl="/redeem">
+              Sign in to redeem
+            </SignInButton>
+          </Button>
+        </div>
+      ) : (
+        <RedeemGiftForm />
+      )}
+    </div>
+  );
+};
+
+export default RedeemPage;
@@ -0,0 +1,78 @@
+import PageHeader from "@/components/PageHeader";
+import { db } from "@/drizzle/db";
+import { CouponTable, ProductTable } from "@/drizzle/schema";
+import CouponForm from "@/features/coupons/components/CouponForm";
+import { getCouponIdTag } from "@/features/coupons/db/cache";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import { asc, eq } from "drizzle-orm";
+import { fromCents } from "@/lib/money";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import { forbidden, notFound } from "next/navigation";
+import React from "react";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+
+const EditCouponPage = async ({
+  params,
+}: {
+  params: Promise<{ couponId: string }>;
+}) => {
+  if (!(await can(await getCurrentUser(), "update", "coupon"))) {
+    return forbidden();
+  }
+
+  const { couponId } = await params;
+  const coupon = await getCoupon(couponId);
+
+  if (!coupon) return notFound();
+
+  return (
+    <div className="container my-6">
+      <PageHeader title="Edit Coupon" />
+      <CouponForm coupon={coupon} products={await getProducts()} />
+    </div>
+  );
+};
+
+export default EditCouponPage;
+
+async function getProducts() {
+  "use cache";
+  cacheTag(getProductGlobalTag());
+
+  return db.query.ProductTable.findMany({
+    orderBy: asc(ProductTable.name),
+    columns: { id: true, name: true },
+  });
+}
+
+// Fixed discounts are stored in cents but edited in whole units.
+async function getCoupon(id: string) {
+  "use cache";
+  cacheTag(getCouponIdTag(id));
+
+  return db.query.CouponTable.findFirst({
+    columns: {
+      id: true,
+      code: true,
+      discountType: true,
+      discountValue: true,
+      currency: true,
+      productId: true,
+      maxRedemptions: true,
+      maxRedemptionsPerUser: true,
+      startsAt: true,
+      endsAt: true,
+    },
+    where: eq(CouponTable.id, id),
+  }).then(
+    (coupon) =>
+      coupon && {
+        ...coupon,
+        discountValue:
+          coupon.discountType === "fixed"
+            ? fromCents(coupon.discountValue)
+            : coupon.discountValue,
+      }
+  );
+}
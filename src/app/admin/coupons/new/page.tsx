@@ -0,0 +1,36 @@
+import PageHeader from "@/components/PageHeader";
+import { db } from "@/drizzle/db";
+import { ProductTable } from "@/drizzle/schema";
+import CouponForm from "@/features/coupons/components/CouponForm";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import { asc } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import React from "react";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { forbidden } from "next/navigation";
+
+const NewCouponPage = async () => {
+  if (!(await can(await getCurrentUser(), "create", "coupon"))) {
+    return forbidden();
+  }
+
+  return (
+    <div className="container my-6">
+      <PageHeader title="New Coupon" />
+      <CouponForm products={await getProducts()} />
+    </div>
+  );
+};
+
+export default NewCouponPage;
+
+async function getProducts() {
+  "use cache";
+  cacheTag(getProductGlobalTag());
+
+  return db.query.ProductTable.findMany({
+    orderBy: asc(ProductTable.name),
+    columns: { id: true, name: true },
+  });
+}
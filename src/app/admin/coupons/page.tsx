@@ -0,0 +1,70 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import CouponTable from "@/features/coupons/components/CouponTable";
+import Link from "next/link";
+import {
+  CouponTable as DbCouponTable,
+  ProductTable,
+  PurchaseTable,
+} from "@/drizzle/schema";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import { getCouponGlobalTag } from "@/features/coupons/db/cache";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import { getPurchaseGlobalTag } from "@/features/purchases/db/cache";
+import { db } from "@/drizzle/db";
+import { and, asc, count, eq, isNull } from "drizzle-orm";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { forbidden } from "next/navigation";
+
+const CouponsPage = async () => {
+  if (!(await can(await getCurrentUser(), "list", "coupon"))) {
+    return forbidden();
+  }
+
+  const coupons = await getCoupons();
+  return (
+    <div className="container my-6">
+      <PageHeader title="Coupons">
+        <Button asChild>
+          <Link href="/admin/coupons/new">New Coupon</Link>
+        </Button>
+      </PageHeader>
+
+      <CouponTable coupons={coupons} />
+    </div>
+  );
+};
+
+export default CouponsPage;
+
+async function getCoupons() {
+  "use cache";
+  cacheTag(getCouponGlobalTag(), getProductGlobalTag(), getPurchaseGlobalTag());
+
+  return db
+    .select({
+      id: DbCouponTable.id,
+      code: DbCouponTable.code,
+      discountType: DbCouponTable.discountType,
+      discountValue: DbCouponTable.discountValue,
+      currency: DbCouponTable.currency,
+      productName: ProductTable.name,
+      maxRedemptions: DbCouponTable.maxRedemptions,
+      maxRedemptionsPerUser: DbCouponTable.maxRedemptionsPerUser,
+      startsAt: DbCouponTable.startsAt,
+      endsAt: DbCouponTable.endsAt,
+      redemptionsCount: count(PurchaseTable.id),
+    })
+    .from(DbCouponTable)
+    .leftJoin(ProductTable, eq(ProductTable.id, DbCouponTable.productId))
+    .leftJoin(
+      PurchaseTable,
+      and(
+        eq(PurchaseTable.couponId, DbCouponTable.id),
+        isNull(PurchaseTable.refundedAt)
+      )
+    )
+    .orderBy(asc(DbCouponTable.code))
+    .groupBy(DbCouponTable.id, ProductTable.name);
+}
@@ -4,25 +4,31 @@ import { CourseSectionTable, CourseTable, LessonTable } from "@/drizzle/schema";
 import { getCourseIdTag } from "@/features/courses/db/cache/courses";
 import { getCourseSectionCourseTag } from "@/features/courseSection/db/cache";
 import { getLessonCourseTag } from "@/features/lessons/db/cache/lesson";
-import { asc, eq } from "drizzle-orm";
+import { asc, eq, isNull } from "drizzle-orm";
 import { cacheTag } from "next/dist/server/use-cache/cache-tag";
 import { notFound } from "next/navigation";
 import React from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import CourseForm from "@/features/courses/components/CourseForm";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
+import { DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { EyeClosed, PlusIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { SectionFormDialog } from "@/features/courseSection/components/SectionFormDialog";
+import { LessonFormDialog } from "@/features/lessons/components/LessonFormDialog";
+import { SortableSectionList } from "@/features/courseSection/components/SortableSectionList";
+import { SortableLessonList } from "@/features/lessons/components/SortableLessonList";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { ActionButton } from "@/components/ActionButton";
+import { PublishAtBadge } from "@/components/PublishAtBadge";
+import { DripDaysBadge } from "@/components/DripDaysBadge";
+import { Badge } from "@/components/ui/badge";
+import Link from "next/link";
+import { publishCourse } from "@/features/courses/actions/revisions";
+import CourseRevisionDiff from "@/features/courses/components/CourseRevisionDiff";
+import { diffCourseContent } from "@/features/courses/lib/revisions";
 
 const EditCoursePage = async ({
   params,
@@ -37,15 +43,55 @@ const EditCoursePage = async ({
 
   console.log("course", course);
 
-  if (!course) return notFound();
+  if (
+    !course ||
+    !(await can(await getCurrentUser(), "update", {
+      type: "course",
+      id: course.id,
+    }))
+  ) {
+    return notFound();
+  }
+
+  const changes = diffCourseContent(course.publishedRevision?.content ?? null, {
+    title: course.title,
+    description: course.description,
+    sections: course.courseSections,
+  });
+  const hasUnpublishedChanges =
+    course.publishedRevision == null || changes.length > 0;
 
   return (
     <div className="container my-6">
-      <PageHeader title={course.title} />
+      <PageHeader title={course.title}>
+        <div className="flex gap-2 items-center">
+          {course.publishedRevision == null ? (
+            <Badge variant="outline">Never published</Badge>
+          ) : hasUnpublishedChanges ? (
+            <Badge variant="secondary">Unpublished changes</Badge>
+          ) : (
+            <Badge>Published #{course.publishedRevision.number}</Badge>
+          )}
+          <Button variant="outline" asChild>
+            <Link href={`/admin/courses/${course.id}/revisions`}>
+              Revisions
+            </Link>
+          </Button>
+          <ActionButton
+            action={publishCourse.bind(null, course.id)}
+            disabled={!hasUnpublishedChanges}
+          >
+            Publish
+          </ActionButton>
+        </div>
+      </PageHeader>
       <Tabs defaultValue="lessons">
         <TabsList>
           <TabsTrigger value="lessons">Lessons</TabsTrigger>
           <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="changes">
+            Unpublished Changes ({changes.length})
+          </TabsTrigger>
         </TabsList>
         <TabsContent value="lessons">
           <TabsContent value="lessons" className="flex flex-col gap-2">
@@ -61,43 +107,52 @@ const EditCoursePage = async ({
                 </SectionFormDialog>
               </CardHeader>
               <CardContent>
-                {/* <SortableSectionList
-                courseId={course.id}
-                sections={course.courseSections}
-              /> */}
-              </CardContent>
-            </Card>
-            <hr className="my-2" />
-            {/* {course.courseSections.map(section => (
-            <Card key={section.id}>
-              <CardHeader className="flex items-center flex-row justify-between gap-4">
-                <CardTitle
-                  className={cn(
-                    "flex items-center gap-2",
-                    section.status === "private" && "text-muted-foreground"
-                  )}
-                >
-                  {section.status === "private" && <EyeClosed />} {section.name}
-                </CardTitle>
-                <LessonFormDialog
-                  defaultSectionId={section.id}
+                <SortableSectionList
+                  courseId={course.id}
                   sections={course.courseSections}
-                >
-                  <DialogTrigger asChild>
-                    <Button variant="outline">
-                      <PlusIcon /> New Lesson
-                    </Button>
-                  </DialogTrigger>
-                </LessonFormDialog>
-              </CardHeader>
-              <CardContent>
-                <SortableLessonList
-                  sections={course.courseSections}
-                  lessons={section.lessons}
                 />
               </CardContent>
             </Card>
-          ))} */}
+            <hr className="my-2" />
+            {course.courseSections.map((section) => (
+              <Card key={section.id}>
+                <CardHeader className="flex items-center flex-row justify-between gap-4">
+                  <CardTitle
+                    className={cn(
+                      "flex items-center gap-2",
+                      section.status === "private" && "text-muted-foreground"
+                    )}
+                  >
+                    {section.status === "private" && <EyeClosed />}{" "}
+                    {section.name}
+                    {section.status === "private" &&
+                      section.publishAt != null && (
+                        <PublishAtBadge publishAt={section.publishAt} />
+                      )}
+                    {section.dripDays != null && (
+                      <DripDaysBadge dripDays={section.dripDays} />
+                    )}
+                  </CardTitle>
+                  <LessonFormDialog
+                    defaultSectionId={section.id}
+                    sections={course.courseSections}
+                  >
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <PlusIcon /> New Lesson
+                      </Button>
+                    </DialogTrigger>
+                  </LessonFormDialog>
+                </CardHeader>
+                <CardContent>
+                  <SortableLessonList
+                    sectionId={section.id}
+                    sections={course.courseSections}
+                    lessons={section.lessons}
+                  />
+                </CardContent>
+              </Card>
+            ))}
           </TabsContent>
         </TabsContent>
         <TabsContent value="details">
@@ -107,6 +162,16 @@ const EditCoursePage = async ({
             </CardHeader>
           </Card>
         </TabsContent>
+        <TabsContent value="changes">
+          <Card>
+            <CardHeader>
+              <CardTitle>Changes since the published version</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CourseRevisionDiff changes={changes} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -126,11 +191,20 @@ async function getCourse(id: string) {
     columns: { id: true, title: true, description: true },
     where: eq(CourseTable.id, id),
     with: {
+      publishedRevision: { columns: { number: true, content: true } },
       courseSections: {
+        where: isNull(CourseSectionTable.deletedAt),
         orderBy: asc(CourseSectionTable.order),
-        columns: { id: true, status: true, name: true },
+        columns: {
+          id: true,
+          status: true,
+          name: true,
+          publishAt: true,
+          dripDays: true,
+        },
         with: {
           lessons: {
+            where: isNull(LessonTable.deletedAt),
             orderBy: asc(LessonTable.order),
             columns: {
               id: true,
@@ -139,6 +213,8 @@ async function getCourse(id: string) {
               description: true,
               youtubeVideoId: true,
               sectionId: true,
+              publishAt: true,
+              dripDays: true,
             },
           },
         },
@@ -0,0 +1,119 @@
+import { ActionButton } from "@/components/ActionButton";
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { rollbackCourse } from "@/features/courses/actions/revisions";
+import CourseRevisionDiff from "@/features/courses/components/CourseRevisionDiff";
+import {
+  getCourseDraftContent,
+  getCourseRevision,
+  getPreviousCourseRevision,
+} from "@/features/courses/db/revisions";
+import { diffCourseContent } from "@/features/courses/lib/revisions";
+import {
+  revisionComparisonSchema,
+  revisionComparisons,
+} from "@/features/courses/schemas/revisions";
+import { formatDate } from "@/lib/formatter";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const CourseRevisionPage = async ({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ courseId: string; revisionId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) => {
+  const { courseId, revisionId } = await params;
+  const revision = await getCourseRevision(revisionId);
+
+  if (
+    revision == null ||
+    revision.courseId !== courseId ||
+    !(await can(await getCurrentUser(), "update", {
+      type: "course",
+      id: courseId,
+    }))
+  ) {
+    return notFound();
+  }
+
+  const { compare } = revisionComparisonSchema.parse(await searchParams);
+  const changes =
+    compare === "draft"
+      ? await getDraftChanges(revision)
+      : await getPreviousChanges(revision);
+
+  return (
+    <div className="container my-6 flex flex-col gap-8">
+      <PageHeader title={`Revision #${revision.number}`} className="mb-0">
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href={`/admin/courses/${courseId}/revisions`}>
+              All Revisions
+            </Link>
+          </Button>
+          <ActionButton
+            action={rollbackCourse.bind(null, courseId, revision.id)}
+            requireAreYouSure
+          >
+            Roll Back to #{revision.number}
+          </ActionButton>
+        </div>
+      </PageHeader>
+
+      <div className="text-muted-foreground">
+        Published by {revision.author?.name ?? "the system"} on{" "}
+        {formatDate(revision.createdAt)}. Rolling back replaces the draft with
+        this revision and publishes it as a new revision.
+      </div>
+
+      <Card>
+        <CardHeader className="flex items-center flex-row justify-between gap-4">
+          <CardTitle>
+            {compare === "draft"
+              ? "Changes in the current draft"
+              : "Changes from the previous revision"}
+          </CardTitle>
+          <div className="flex gap-2">
+            {revisionComparisons.map((comparison) => (
+              <Button
+                key={comparison}
+                variant={comparison === compare ? "default" : "outline"}
+                className="capitalize"
+                asChild
+              >
+                <Link
+                  href={`/admin/courses/${courseId}/revisions/${revision.id}?compare=${comparison}`}
+                >
+                  vs {comparison}
+                </Link>
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <CourseRevisionDiff changes={changes} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CourseRevisionPage;
+
+type Revision = NonNullable<Awaited<ReturnType<typeof getCourseRevision>>>;
+
+async function getPreviousChanges(revision: Revision) {
+  const previous = await getPreviousCourseRevision(revision);
+  return diffCourseContent(previous?.content ?? null, revision.content);
+}
+
+// Not cached, the draft changes with every edit.
+async function getDraftChanges(revision: Revision) {
+  const draft = await getCourseDraftContent(revision.courseId);
+  return draft == null ? [] : diffCourseContent(revision.content, draft);
+}
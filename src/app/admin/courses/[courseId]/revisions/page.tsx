@@ -0,0 +1,117 @@
+import PageHeader from "@/components/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { db } from "@/drizzle/db";
+import { CourseTable } from "@/drizzle/schema";
+import { getCourseIdTag } from "@/features/courses/db/cache/courses";
+import { getCourseRevisions } from "@/features/courses/db/revisions";
+import { formatDate, formatPlural } from "@/lib/formatter";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { eq } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const CourseRevisionsPage = async ({
+  params,
+}: {
+  params: Promise<{ courseId: string }>;
+}) => {
+  const { courseId } = await params;
+  const course = await getCourse(courseId);
+
+  if (
+    course == null ||
+    !(await can(await getCurrentUser(), "update", {
+      type: "course",
+      id: course.id,
+    }))
+  ) {
+    return notFound();
+  }
+
+  const revisions = await getCourseRevisions(course.id);
+
+  return (
+    <div className="container my-6 flex flex-col gap-8">
+      <PageHeader title={`${course.title} Revisions`} className="mb-0">
+        <Button variant="outline" asChild>
+          <Link href={`/admin/courses/${course.id}/edit`}>Edit Draft</Link>
+        </Button>
+      </PageHeader>
+
+      {revisions.length === 0 ? (
+        <div className="text-muted-foreground">
+          This course has not been published yet
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>
+                {formatPlural(revisions.length, {
+                  singular: "revision",
+                  plural: "revisions",
+                })}
+              </TableHead>
+              <TableHead>Author</TableHead>
+              <TableHead>Published</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {revisions.map((revision) => (
+              <TableRow key={revision.id}>
+                <TableCell>
+                  <div className="flex gap-2 items-center">
+                    <div className="font-semibold">#{revision.number}</div>
+                    {revision.id === course.publishedRevisionId && (
+                      <Badge>Current</Badge>
+                    )}
+                  </div>
+                  {revision.rolledBackFromRevision != null && (
+                    <div className="text-muted-foreground">
+                      Rolled back to #{revision.rolledBackFromRevision.number}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>{revision.author?.name ?? "System"}</TableCell>
+                <TableCell>{formatDate(revision.createdAt)}</TableCell>
+                <TableCell>
+                  <Button variant="outline" asChild>
+                    <Link
+                      href={`/admin/courses/${course.id}/revisions/${revision.id}`}
+                    >
+                      View
+                    </Link>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default CourseRevisionsPage;
+
+async function getCourse(id: string) {
+  "use cache";
+  cacheTag(getCourseIdTag(id));
+
+  return db.query.CourseTable.findFirst({
+    columns: { id: true, title: true, publishedRevisionId: true },
+    where: eq(CourseTable.id, id),
+  });
+}
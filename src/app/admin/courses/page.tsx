@@ -11,13 +11,17 @@ import {
 import { cacheTag } from "next/dist/server/use-cache/cache-tag";
 import { getCourseGlobalTag } from "@/features/courses/db/cache/courses";
 import { db } from "@/drizzle/db";
-import { asc, countDistinct, eq } from "drizzle-orm";
+import { and, asc, countDistinct, eq, inArray, isNull } from "drizzle-orm";
 import { getUserCourseAccessGlobalTag } from "@/features/courses/db/cache/userCourseAccess";
 import { getCourseSectionGlobalTag } from "@/features/courseSection/db/cache";
 import { getLessonGlobalTag } from "@/features/lessons/db/cache/lesson";
+import { getManagedCourseIds } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
 
 const CoursePage = async () => {
-  const courses = await getCourses();
+  const courses = await getCourses(
+    await getManagedCourseIds(await getCurrentUser())
+  );
   return (
     <div className="container my-6">
       <PageHeader title="Courses">
@@ -33,7 +37,7 @@ const CoursePage = async () => {
 
 export default CoursePage;
 
-async function getCourses() {
+async function getCourses(courseIds: string[] | null) {
   "use cache";
   cacheTag(
     getCourseGlobalTag(),
@@ -46,6 +50,7 @@ async function getCourses() {
     .select({
       id: DbCourseTable.id,
       name: DbCourseTable.title,
+      archivedAt: DbCourseTable.archivedAt,
       sectionsCount: countDistinct(CourseSectionTable),
       lessonsCount: countDistinct(LessonTable),
       studentsCount: countDistinct(UserCourseAccessTable),
@@ -53,13 +58,23 @@ async function getCourses() {
     .from(DbCourseTable)
     .leftJoin(
       CourseSectionTable,
-      eq(CourseSectionTable.courseId, DbCourseTable.id)
+      and(
+        eq(CourseSectionTable.courseId, DbCourseTable.id),
+        isNull(CourseSectionTable.deletedAt)
+      )
+    )
+    .leftJoin(
+      LessonTable,
+      and(
+        eq(LessonTable.sectionId, CourseSectionTable.id),
+        isNull(LessonTable.deletedAt)
+      )
     )
-    .leftJoin(LessonTable, eq(LessonTable.sectionId, CourseSectionTable.id))
     .leftJoin(
       UserCourseAccessTable,
       eq(UserCourseAccessTable.courseId, DbCourseTable.id)
     )
+    .where(courseIds == null ? undefined : inArray(DbCourseTable.id, courseIds))
     .orderBy(asc(DbCourseTable.title))
     .groupBy(DbCourseTable.id);
 }
@@ -1,24 +1,38 @@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { canAccessAdminPages } from "@/permissions/general";
+import { can } from "@/permissions/policy";
 import { getCurrentUser } from "@/services/clerk";
 import { SignedIn, SignedOut, SignInButton, UserButton } from "@clerk/nextjs";
 import Link from "next/link";
+import { forbidden } from "next/navigation";
 
-export default function AdminLayout({
+export default async function AdminLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const user = await getCurrentUser();
+  if (user.userId == null) return user.redirectToSignIn();
+  if (!(await can(user, "read", "adminPages"))) return forbidden();
+
   return (
     <>
-      <Navbar />
+      <Navbar
+        canManageProducts={await can(user, "list", "product")}
+        canManageCoupons={await can(user, "list", "coupon")}
+      />
       {children}
     </>
   );
 }
 
-function Navbar() {
+function Navbar({
+  canManageProducts,
+  canManageCoupons,
+}: {
+  canManageProducts: boolean;
+  canManageCoupons: boolean;
+}) {
   return (
     <header className="flex h-12 shadow bg-background z-10">
       <nav className="container flex gap-4">
@@ -36,11 +50,29 @@ function Navbar() {
           Courses
         </Link>
 
+        {canManageProducts && (
+          <Link
+            href="/admin/products"
+            className="hover:bg-accent/10 flex items-center px-2"
+          >
+            Products
+          </Link>
+        )}
+
+        {canManageCoupons && (
+          <Link
+            href="/admin/coupons"
+            className="hover:bg-accent/10 flex items-center px-2"
+          >
+            Coupons
+          </Link>
+        )}
+
         <Link
-          href="/admin/products"
+          href="/admin/users"
           className="hover:bg-accent/10 flex items-center px-2"
         >
-          Products
+          Users
         </Link>
 
         <Link
@@ -0,0 +1,93 @@
+import PageHeader from "@/components/PageHeader";
+import { db } from "@/drizzle/db";
+import { CourseTable, ProductTable } from "@/drizzle/schema";
+import { getCourseGlobalTag } from "@/features/courses/db/cache/courses";
+import { getProductIdTag } from "@/features/products/db/cache";
+import ProductForm from "@/features/products/components/ProductForm";
+import { asc, eq } from "drizzle-orm";
+import { fromCents } from "@/lib/money";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import { forbidden, notFound } from "next/navigation";
+import React from "react";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+
+const EditProductPage = async ({
+  params,
+}: {
+  params: Promise<{ productId: string }>;
+}) => {
+  if (!(await can(await getCurrentUser(), "update", "product"))) {
+    return forbidden();
+  }
+
+  const { productId } = await params;
+  const product = await getProduct(productId);
+
+  if (!product) return notFound();
+
+  return (
+    <div className="container my-6">
+      <PageHeader title="Edit Product" />
+      <ProductForm product={product} courses={await getCourses()} />
+    </div>
+  );
+};
+
+export default EditProductPage;
+
+async function getCourses() {
+  "use cache";
+  cacheTag(getCourseGlobalTag());
+
+  return db.query.CourseTable.findMany({
+    orderBy: asc(CourseTable.title),
+    columns: { id: true, title: true },
+  }).then((courses) =>
+    courses.map((course) => ({ id: course.id, name: course.title }))
+  );
+}
+
+async function getProduct(id: string) {
+  "use cache";
+  cacheTag(getProductIdTag(id));
+
+  return db.query.ProductTable.findFirst({
+    columns: {
+      id: true,
+      name: true,
+      description: true,
+      priceInCents: true,
+      currency: true,
+      accessDurationMonths: true,
+      subscriptionInterval: true,
+      allowsUpgradeCredit: true,
+      status: true,
+      imageUrl: true,
+    },
+    where: eq(ProductTable.id, id),
+    with: {
+      courseProducts: { columns: { courseId: true } },
+      prices: { columns: { currency: true, priceInCents: true } },
+    },
+  }).then(
+    (product) =>
+      product && {
+        id: product.id,
+        name: product.name,
+        description: product.description,
+        price: fromCents(product.priceInCents),
+        currency: product.currency,
+        prices: product.prices.map(({ currency, priceInCents }) => ({
+          currency,
+          price: fromCents(priceInCents),
+        })),
+        accessDurationMonths: product.accessDurationMonths,
+        subscriptionInterval: product.subscriptionInterval,
+        allowsUpgradeCredit: product.allowsUpgradeCredit,
+        status: product.status,
+        imageUrl: product.imageUrl,
+        courseIds: product.courseProducts.map((c) => c.courseId),
+      }
+  );
+}
@@ -0,0 +1,15 @@
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { forbidden } from "next/navigation";
+
+export default async function AdminProductsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  if (!(await can(await getCurrentUser(), "list", "product"))) {
+    return forbidden();
+  }
+
+  return children;
+}
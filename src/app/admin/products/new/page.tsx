@@ -0,0 +1,38 @@
+import PageHeader from "@/components/PageHeader";
+import { db } from "@/drizzle/db";
+import { CourseTable } from "@/drizzle/schema";
+import { getCourseGlobalTag } from "@/features/courses/db/cache/courses";
+import ProductForm from "@/features/products/components/ProductForm";
+import { asc } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import React from "react";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { forbidden } from "next/navigation";
+
+const NewProductPage = async () => {
+  if (!(await can(await getCurrentUser(), "create", "product"))) {
+    return forbidden();
+  }
+
+  return (
+    <div className="container my-6">
+      <PageHeader title="New Product" />
+      <ProductForm courses={await getCourses()} />
+    </div>
+  );
+};
+
+export default NewProductPage;
+
+async function getCourses() {
+  "use cache";
+  cacheTag(getCourseGlobalTag());
+
+  return db.query.CourseTable.findMany({
+    orderBy: asc(CourseTable.title),
+    columns: { id: true, title: true },
+  }).then((courses) =>
+    courses.map((course) => ({ id: course.id, name: course.title }))
+  );
+}
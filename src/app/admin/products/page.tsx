@@ -0,0 +1,61 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import ProductTable from "@/features/products/components/ProductTable";
+import Link from "next/link";
+import {
+  CourseProductTable,
+  ProductTable as DbProductTable,
+} from "@/drizzle/schema";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import { db } from "@/drizzle/db";
+import { asc, countDistinct, eq } from "drizzle-orm";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { forbidden } from "next/navigation";
+
+const ProductsPage = async () => {
+  if (!(await can(await getCurrentUser(), "list", "product"))) {
+    return forbidden();
+  }
+
+  const products = await getProducts();
+  return (
+    <div className="container my-6">
+      <PageHeader title="Products">
+        <Button asChild>
+          <Link href="/admin/products/new">New Product</Link>
+        </Button>
+      </PageHeader>
+
+      <ProductTable products={products} />
+    </div>
+  );
+};
+
+export default ProductsPage;
+
+async function getProducts() {
+  "use cache";
+  cacheTag(getProductGlobalTag());
+
+  return db
+    .select({
+      id: DbProductTable.id,
+      name: DbProductTable.name,
+      status: DbProductTable.status,
+      archivedAt: DbProductTable.archivedAt,
+      priceInCents: DbProductTable.priceInCents,
+      currency: DbProductTable.currency,
+      description: DbProductTable.description,
+      imageUrl: DbProductTable.imageUrl,
+      coursesCount: countDistinct(CourseProductTable.courseId),
+    })
+    .from(DbProductTable)
+    .leftJoin(
+      CourseProductTable,
+      eq(CourseProductTable.productId, DbProductTable.id)
+    )
+    .orderBy(asc(DbProductTable.name))
+    .groupBy(DbProductTable.id);
+}
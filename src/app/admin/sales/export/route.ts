@@ -0,0 +1,84 @@
+import { getSales } from "@/features/purchases/db/sales";
+import { can, getManagedCourseIds } from "@/permissions/policy";
+import { salesFilterSchema } from "@/features/purchases/schemas/purchases";
+import { toCsv } from "@/lib/csv";
+import { fromCents } from "@/lib/money";
+import { getCurrentUser } from "@/services/clerk";
+import { NextRequest } from "next/server";
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!(await can(user, "list", "purchase"))) {
+    return new Response(null, { status: 403 });
+  }
+
+  // Exports every sale matching the dashboard filters, ignoring pagination.
+  const filters = salesFilterSchema
+    .omit({ page: true })
+    .parse(Object.fromEntries(request.nextUrl.searchParams));
+  const purchases = await getSales(
+    { ...filters, courseIds: await getManagedCourseIds(user) },
+    {}
+  );
+
+  const csv = toCsv([
+    [
+      "Date",
+      "Product",
+      "Customer Name",
+      "Customer Email",
+      "Currency",
+      "Price Paid",
+      "Coupon",
+      "Discount",
+      "Upgrade Credit",
+      "Refunded Amount",
+      "Net Revenue",
+      "Refunded At",
+      "Gift Status",
+      "Gift Redeemed By",
+      "Gift Redeemed At",
+    ],
+    ...purchases.map((purchase) => [
+      purchase.createdAt.toISOString(),
+      purchase.productDetails.name,
+      purchase.user.name,
+      purchase.user.email,
+      purchase.currency.toUpperCase(),
+      formatCents(purchase.pricePaidInCents),
+      purchase.couponCode,
+      formatCents(purchase.discountInCents),
+      formatCents(purchase.upgradeCreditInCents),
+      formatCents(purchase.refundedAmountInCents),
+      formatCents(purchase.pricePaidInCents - purchase.refundedAmountInCents),
+      purchase.refundedAt?.toISOString(),
+      getGiftStatus(purchase),
+      purchase.giftRedeemedBy?.email,
+      purchase.giftRedeemedAt?.toISOString(),
+    ]),
+  ]);
+
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="sales-${new Date().toISOString().slice(0, 10)}.csv"`,
+    },
+  });
+}
+
+// Codes are left out, since unredeemed ones can still be redeemed.
+function getGiftStatus({
+  isGift,
+  giftRedeemedAt,
+}: {
+  isGift: boolean;
+  giftRedeemedAt: Date | null;
+}) {
+  if (!isGift) return null;
+
+  return giftRedeemedAt == null ? "Not redeemed" : "Redeemed";
+}
+
+function formatCents(amountInCents: number) {
+  return fromCents(amountInCents).toFixed(2);
+}
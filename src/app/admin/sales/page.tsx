@@ -0,0 +1,145 @@
+import PageHeader from "@/components/PageHeader";
+import { Pagination, toSearchParams } from "@/components/Pagination";
+import { Button } from "@/components/ui/button";
+import { db } from "@/drizzle/db";
+import { CourseProductTable, ProductTable } from "@/drizzle/schema";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import PurchaseTable from "@/features/purchases/components/PurchaseTable";
+import RevenueByCouponTable from "@/features/purchases/components/RevenueByCouponTable";
+import RevenueByProductTable from "@/features/purchases/components/RevenueByProductTable";
+import RevenueOverTimeChart from "@/features/purchases/components/RevenueOverTimeChart";
+import SalesFilters from "@/features/purchases/components/SalesFilters";
+import SalesStats from "@/features/purchases/components/SalesStats";
+import {
+  getRevenueByCoupon,
+  getRevenueByProduct,
+  getRevenueOverTime,
+  getSales,
+  getSalesTotals,
+  SALES_PAGE_SIZE,
+} from "@/features/purchases/db/sales";
+import { salesFilterSchema } from "@/features/purchases/schemas/purchases";
+import { asc, inArray } from "drizzle-orm";
+import { DownloadIcon } from "lucide-react";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import Link from "next/link";
+import { forbidden } from "next/navigation";
+import { can, getManagedCourseIds } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+
+const SalesPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) => {
+  const user = await getCurrentUser();
+  if (!(await can(user, "list", "purchase"))) return forbidden();
+
+  const { page, ...filters } = salesFilterSchema.parse(await searchParams);
+  const courseIds = await getManagedCourseIds(user);
+  const scopedFilters = { ...filters, courseIds };
+
+  const [
+    purchases,
+    totals,
+    revenueByProduct,
+    revenueByCoupon,
+    revenueOverTime,
+    products,
+    canRefund,
+  ] = await Promise.all([
+    getSales(scopedFilters, { page }),
+    getSalesTotals(scopedFilters),
+    getRevenueByProduct(scopedFilters),
+    getRevenueByCoupon(scopedFilters),
+    getRevenueOverTime(scopedFilters),
+    getProducts(courseIds),
+    can(user, "refund", "purchase"),
+  ]);
+  const pageCount = Math.max(Math.ceil(totals.salesCount / SALES_PAGE_SIZE), 1);
+
+  return (
+    <div className="container my-6 flex flex-col gap-8">
+      <PageHeader title="Sales" className="mb-0">
+        <Button variant="outline" asChild>
+          <Link href={`/admin/sales/export?${toSearchParams(filters)}`}>
+            <DownloadIcon />
+            Export CSV
+          </Link>
+        </Button>
+      </PageHeader>
+
+      <div className="text-muted-foreground -mt-4">
+        Only one-time purchases are included, here and in the export.
+        Subscription payments are not recorded as sales, so their revenue is
+        only shown in the payment provider&apos;s dashboard.
+      </div>
+
+      <SalesFilters filters={{ ...filters, page }} products={products} />
+
+      <SalesStats totals={totals} currency={filters.currency} />
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        <div className="flex flex-col gap-4">
+          <h2 className="text-xl font-semibold">Revenue Over Time</h2>
+          <RevenueOverTimeChart
+            interval={revenueOverTime.interval}
+            revenue={revenueOverTime.rows}
+            currency={filters.currency}
+          />
+        </div>
+        <div className="flex flex-col gap-4">
+          <h2 className="text-xl font-semibold">Revenue by Product</h2>
+          <RevenueByProductTable
+            revenue={revenueByProduct}
+            currency={filters.currency}
+          />
+        </div>
+        <div className="flex flex-col gap-4">
+          <h2 className="text-xl font-semibold">Revenue by Coupon</h2>
+          <RevenueByCouponTable
+            revenue={revenueByCoupon}
+            currency={filters.currency}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <PurchaseTable
+          purchases={purchases}
+          totalCount={totals.salesCount}
+          canRefund={canRefund}
+        />
+        <Pagination
+          page={page}
+          pageCount={pageCount}
+          getPageHref={(page) =>
+            `/admin/sales?${toSearchParams({ ...filters, page })}`
+          }
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SalesPage;
+
+async function getProducts(courseIds: string[] | null) {
+  "use cache";
+  cacheTag(getProductGlobalTag());
+
+  return db.query.ProductTable.findMany({
+    columns: { id: true, name: true },
+    where:
+      courseIds == null
+        ? undefined
+        : inArray(
+            ProductTable.id,
+            db
+              .select({ productId: CourseProductTable.productId })
+              .from(CourseProductTable)
+              .where(inArray(CourseProductTable.courseId, courseIds))
+          ),
+    orderBy: asc(ProductTable.name),
+  });
+}
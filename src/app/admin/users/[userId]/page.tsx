@@ -0,0 +1,328 @@
+import { ActionButton } from "@/components/ActionButton";
+import PageHeader from "@/components/PageHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { db } from "@/drizzle/db";
+import {
+  CourseProductTable,
+  CourseTable,
+  PurchaseTable,
+  UserCourseAccessTable,
+  UserTable,
+} from "@/drizzle/schema";
+import { removeCourseAccess } from "@/features/courses/actions/userCourseAccess";
+import GrantCourseAccessForm from "@/features/courses/components/GrantCourseAccessForm";
+import { getCourseGlobalTag } from "@/features/courses/db/cache/courses";
+import { getUserCourseAccessUserTag } from "@/features/courses/db/cache/userCourseAccess";
+import { isAccessActive } from "@/features/courses/lib/accessExpiry";
+import { getLearnerCourse } from "@/features/courses/lib/revisions";
+import { getCompletedLessonIds } from "@/features/lessons/db/userLessonComplete";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import { PurchaseAmount } from "@/features/purchases/components/PurchaseTable";
+import { getPurchaseUserTag } from "@/features/purchases/db/cache";
+import UserRoleForm from "@/features/users/components/UserRoleForm";
+import { getUserIdTag } from "@/features/users/db/cache";
+import { formatDate } from "@/lib/formatter";
+import { can, getManagedCourseIds } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { Trash2Icon } from "lucide-react";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+const UserPage = async ({
+  params,
+}: {
+  params: Promise<{ userId: string }>;
+}) => {
+  const { userId } = await params;
+  const [currentUser, user] = await Promise.all([
+    getCurrentUser(),
+    getUser(userId),
+  ]);
+
+  if (
+    user == null ||
+    !(await can(currentUser, "read", { type: "user", id: user.id }))
+  ) {
+    return notFound();
+  }
+
+  const courseIds = await getManagedCourseIds(currentUser);
+  const [
+    purchases,
+    courseAccesses,
+    completedLessonIds,
+    courses,
+    canUpdateRole,
+    canReadPurchases,
+    canGrantAccess,
+    canRemoveAccess,
+  ] = await Promise.all([
+    getUserPurchases(user.id, courseIds),
+    getUserCourseAccesses(user.id, courseIds),
+    getCompletedLessonIds(user.id),
+    getCourses(courseIds),
+    can(currentUser, "update", { type: "user", id: user.id }),
+    can(currentUser, "read", { type: "purchase", userId: user.id }),
+    can(currentUser, "create", "userCourseAccess"),
+    can(currentUser, "delete", "userCourseAccess"),
+  ]);
+  // Time-limited access can still be made permanent.
+  const grantableCourses = courses.filter(
+    (course) =>
+      !courseAccesses.some(
+        (access) => access.course.id === course.id && access.expiresAt == null
+      )
+  );
+
+  return (
+    <div className="container my-6 flex flex-col gap-8">
+      <PageHeader title={user.name} className="mb-0">
+        <div className="flex gap-2">
+          <Badge variant="outline" className="capitalize">
+            {user.role}
+          </Badge>
+          {user.deletedAt != null && (
+            <Badge variant="destructive">
+              Deleted {formatDate(user.deletedAt)}
+            </Badge>
+          )}
+        </div>
+      </PageHeader>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <div className="grid grid-cols-[auto_1fr] gap-x-8 gap-y-2 text-sm">
+            <div className="text-muted-foreground">Email</div>
+            <div>{user.email}</div>
+            <div className="text-muted-foreground">Joined</div>
+            <div>{formatDate(user.createdAt)}</div>
+          </div>
+          {canUpdateRole &&
+            user.deletedAt == null &&
+            user.id !== currentUser.userId && <UserRoleForm user={user} />}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Course Access</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Progress</TableHead>
+                <TableHead>Granted</TableHead>
+                <TableHead>Expires</TableHead>
+                {canRemoveAccess && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {courseAccesses.map(({ course, createdAt, expiresAt }) => {
+                const lessons = course.sections.flatMap(
+                  (section) => section.lessons
+                );
+                const completedCount = lessons.filter((lesson) =>
+                  completedLessonIds.includes(lesson.id)
+                ).length;
+
+                return (
+                  <TableRow key={course.id}>
+                    <TableCell className="font-semibold">
+                      {course.title}
+                    </TableCell>
+                    <TableCell>
+                      {completedCount} / {lessons.length} lessons
+                    </TableCell>
+                    <TableCell>{formatDate(createdAt)}</TableCell>
+                    <TableCell>
+                      {expiresAt == null ? (
+                        "Never"
+                      ) : isAccessActive(expiresAt) ? (
+                        formatDate(expiresAt)
+                      ) : (
+                        <Badge variant="destructive">
+                          Expired {formatDate(expiresAt)}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {canRemoveAccess && (
+                      <TableCell>
+                        <ActionButton
+                          variant="destructive"
+                          requireAreYouSure
+                          action={removeCourseAccess.bind(
+                            null,
+                            user.id,
+                            course.id
+                          )}
+                        >
+                          <Trash2Icon />
+                          <span className="sr-only">Remove Access</span>
+                        </ActionButton>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {canGrantAccess && user.deletedAt == null && (
+            <GrantCourseAccessForm
+              userId={user.id}
+              courses={grantableCourses}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Purchases</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Amount</TableHead>
+                {canReadPurchases && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {purchases.map((purchase) => (
+                <TableRow key={purchase.id}>
+                  <TableCell className="font-semibold">
+                    {purchase.productDetails.name}
+                  </TableCell>
+                  <TableCell>{formatDate(purchase.createdAt)}</TableCell>
+                  <TableCell>
+                    <PurchaseAmount purchase={purchase} />
+                  </TableCell>
+                  {canReadPurchases && (
+                    <TableCell>
+                      <Button variant="outline" asChild>
+                        <Link href={`/purchases/${purchase.id}`}>
+                          View Receipt
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UserPage;
+
+async function getUser(id: string) {
+  "use cache";
+  cacheTag(getUserIdTag(id));
+
+  return db.query.UserTable.findFirst({
+    columns: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+      deletedAt: true,
+      createdAt: true,
+    },
+    where: eq(UserTable.id, id),
+  });
+}
+
+async function getUserPurchases(userId: string, courseIds: string[] | null) {
+  "use cache";
+  cacheTag(getPurchaseUserTag(userId), getProductGlobalTag());
+
+  return db.query.PurchaseTable.findMany({
+    columns: {
+      id: true,
+      pricePaidInCents: true,
+      currency: true,
+      refundedAmountInCents: true,
+      refundedAt: true,
+      productDetails: true,
+      createdAt: true,
+    },
+    where: and(
+      eq(PurchaseTable.userId, userId),
+      courseIds != null
+        ? inArray(
+            PurchaseTable.productId,
+            db
+              .select({ productId: CourseProductTable.productId })
+              .from(CourseProductTable)
+              .where(inArray(CourseProductTable.courseId, courseIds))
+          )
+        : undefined
+    ),
+    orderBy: desc(PurchaseTable.createdAt),
+  });
+}
+
+async function getUserCourseAccesses(
+  userId: string,
+  courseIds: string[] | null
+) {
+  "use cache";
+  cacheTag(getUserCourseAccessUserTag(userId), getCourseGlobalTag());
+
+  const accesses = await db.query.UserCourseAccessTable.findMany({
+    columns: { createdAt: true, expiresAt: true },
+    where: and(
+      eq(UserCourseAccessTable.userId, userId),
+      courseIds != null
+        ? inArray(UserCourseAccessTable.courseId, courseIds)
+        : undefined
+    ),
+    orderBy: desc(UserCourseAccessTable.createdAt),
+    with: {
+      course: {
+        columns: { id: true, title: true, description: true },
+        with: { publishedRevision: { columns: { content: true } } },
+      },
+    },
+  });
+
+  return accesses.map(({ course, ...access }) => ({
+    ...access,
+    course: getLearnerCourse(course),
+  }));
+}
+
+async function getCourses(courseIds: string[] | null) {
+  "use cache";
+  cacheTag(getCourseGlobalTag());
+
+  const courses = await db.query.CourseTable.findMany({
+    columns: { id: true, title: true },
+    where: courseIds != null ? inArray(CourseTable.id, courseIds) : undefined,
+    orderBy: asc(CourseTable.title),
+  });
+
+  return courses.map((course) => ({ id: course.id, name: course.title }));
+}
@@ -0,0 +1,26 @@
+import PageHeader from "@/components/PageHeader";
+import BulkEnrollmentForm from "@/features/courses/components/BulkEnrollmentForm";
+import { BULK_ENROLLMENT_MAX_ROWS } from "@/features/courses/schemas/bulkEnrollment";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { forbidden } from "next/navigation";
+
+const BulkEnrollmentPage = async () => {
+  if (!(await can(await getCurrentUser(), "create", "userCourseAccess")))
+    return forbidden();
+
+  return (
+    <div className="container my-6">
+      <PageHeader title="Bulk Enrollment" />
+      <p className="text-muted-foreground mb-6">
+        Upload a CSV with an <code>email</code> column and either a{" "}
+        <code>courseId</code> or <code>productId</code> column, up to{" "}
+        {BULK_ENROLLMENT_MAX_ROWS} rows. Existing users get access right away,
+        other emails are invited and get access when they sign up.
+      </p>
+      <BulkEnrollmentForm />
+    </div>
+  );
+};
+
+export default BulkEnrollmentPage;
@@ -0,0 +1,86 @@
+import PageHeader from "@/components/PageHeader";
+import { Button } from "@/components/ui/button";
+import { db } from "@/drizzle/db";
+import { UserCourseAccessTable, UserTable } from "@/drizzle/schema";
+import ExpiringAccessTable from "@/features/courses/components/ExpiringAccessTable";
+import {
+  expiringAccessFilterSchema,
+  expiringAccessWindows,
+} from "@/features/courses/schemas/userCourseAccess";
+import { can, getManagedCourseIds } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { and, asc, gt, inArray, isNull, lte } from "drizzle-orm";
+import Link from "next/link";
+import { forbidden } from "next/navigation";
+
+const ExpiringAccessPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) => {
+  const user = await getCurrentUser();
+  if (!(await can(user, "list", "user"))) return forbidden();
+
+  const { days } = expiringAccessFilterSchema.parse(await searchParams);
+  const accesses = await getExpiringAccesses(
+    days,
+    await getManagedCourseIds(user)
+  );
+
+  return (
+    <div className="container my-6 flex flex-col gap-8">
+      <PageHeader title="Expiring Access" className="mb-0">
+        <div className="flex gap-2">
+          {expiringAccessWindows.map((window) => (
+            <Button
+              key={window}
+              variant={window === days ? "default" : "outline"}
+              asChild
+            >
+              <Link href={`/admin/users/expiring?days=${window}`}>
+                {window} days
+              </Link>
+            </Button>
+          ))}
+        </div>
+      </PageHeader>
+
+      <ExpiringAccessTable accesses={accesses} />
+    </div>
+  );
+};
+
+export default ExpiringAccessPage;
+
+// Not cached, the window moves with the current time.
+async function getExpiringAccesses(days: number, courseIds: string[] | null) {
+  const now = new Date();
+  const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  const accesses = await db.query.UserCourseAccessTable.findMany({
+    columns: { expiresAt: true },
+    where: and(
+      gt(UserCourseAccessTable.expiresAt, now),
+      lte(UserCourseAccessTable.expiresAt, until),
+      inArray(
+        UserCourseAccessTable.userId,
+        db
+          .select({ id: UserTable.id })
+          .from(UserTable)
+          .where(isNull(UserTable.deletedAt))
+      ),
+      courseIds != null
+        ? inArray(UserCourseAccessTable.courseId, courseIds)
+        : undefined
+    ),
+    orderBy: asc(UserCourseAccessTable.expiresAt),
+    with: {
+      user: { columns: { id: true, name: true, email: true } },
+      course: { columns: { id: true, title: true } },
+    },
+  });
+
+  return accesses.flatMap(({ expiresAt, ...access }) =>
+    expiresAt == null ? [] : [{ ...access, expiresAt }]
+  );
+}
@@ -0,0 +1,161 @@
+import PageHeader from "@/components/PageHeader";
+import { Pagination, toSearchParams } from "@/components/Pagination";
+import { Button } from "@/components/ui/button";
+import { db } from "@/drizzle/db";
+import {
+  UserCourseAccessTable,
+  UserTable as DbUserTable,
+} from "@/drizzle/schema";
+import { getUserCourseAccessGlobalTag } from "@/features/courses/db/cache/userCourseAccess";
+import UserFilters from "@/features/users/components/UserFilters";
+import UserTable from "@/features/users/components/UserTable";
+import { getUserGlobalTag } from "@/features/users/db/cache";
+import {
+  userFilterSchema,
+  UserFilterSchemaType,
+} from "@/features/users/schemas/users";
+import { can, getManagedCourseIds } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import {
+  and,
+  count,
+  countDistinct,
+  desc,
+  eq,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  or,
+} from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import Link from "next/link";
+import { forbidden } from "next/navigation";
+
+const USERS_PAGE_SIZE = 20;
+
+const UsersPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) => {
+  const user = await getCurrentUser();
+  if (!(await can(user, "list", "user"))) return forbidden();
+
+  const { page, ...filters } = userFilterSchema.parse(await searchParams);
+  const courseIds = await getManagedCourseIds(user);
+  const [users, usersCount, canEnroll] = await Promise.all([
+    getUsers(filters, courseIds, page),
+    getUsersCount(filters, courseIds),
+    can(user, "create", "userCourseAccess"),
+  ]);
+  const pageCount = Math.max(Math.ceil(usersCount / USERS_PAGE_SIZE), 1);
+
+  return (
+    <div className="container my-6 flex flex-col gap-8">
+      <PageHeader title="Users" className="mb-0">
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/users/expiring">Expiring Access</Link>
+          </Button>
+          {canEnroll && (
+            <Button asChild>
+              <Link href="/admin/users/enroll">Bulk Enroll</Link>
+            </Button>
+          )}
+        </div>
+      </PageHeader>
+
+      <UserFilters filters={{ ...filters, page }} />
+
+      <div className="flex flex-col gap-4">
+        <UserTable users={users} totalCount={usersCount} />
+        <Pagination
+          page={page}
+          pageCount={pageCount}
+          getPageHref={(page) =>
+            `/admin/users?${toSearchParams({ ...filters, page })}`
+          }
+        />
+      </div>
+    </div>
+  );
+};
+
+export default UsersPage;
+
+type UserListFilters = Omit<UserFilterSchemaType, "page">;
+
+async function getUsers(
+  filters: UserListFilters,
+  courseIds: string[] | null,
+  page: number
+) {
+  "use cache";
+  cacheTag(getUserGlobalTag(), getUserCourseAccessGlobalTag());
+
+  return db
+    .select({
+      id: DbUserTable.id,
+      name: DbUserTable.name,
+      email: DbUserTable.email,
+      role: DbUserTable.role,
+      deletedAt: DbUserTable.deletedAt,
+      createdAt: DbUserTable.createdAt,
+      coursesCount: countDistinct(UserCourseAccessTable.courseId),
+    })
+    .from(DbUserTable)
+    .leftJoin(
+      UserCourseAccessTable,
+      eq(UserCourseAccessTable.userId, DbUserTable.id)
+    )
+    .where(getUsersWhere(filters, courseIds))
+    .groupBy(DbUserTable.id)
+    .orderBy(desc(DbUserTable.createdAt))
+    .limit(USERS_PAGE_SIZE)
+    .offset((page - 1) * USERS_PAGE_SIZE);
+}
+
+async function getUsersCount(
+  filters: UserListFilters,
+  courseIds: string[] | null
+) {
+  "use cache";
+  cacheTag(getUserGlobalTag(), getUserCourseAccessGlobalTag());
+
+  const [result] = await db
+    .select({ count: count() })
+    .from(DbUserTable)
+    .where(getUsersWhere(filters, courseIds));
+
+  return result?.count ?? 0;
+}
+
+function getUsersWhere(
+  { search, role, status }: UserListFilters,
+  courseIds: string[] | null
+) {
+  const pattern = search ? `%${search.replace(/[\\%_]/g, "\\$&")}%` : null;
+
+  return and(
+    pattern != null
+      ? or(ilike(DbUserTable.name, pattern), ilike(DbUserTable.email, pattern))
+      : undefined,
+    role != null ? eq(DbUserTable.role, role) : undefined,
+    status === "active"
+      ? isNull(DbUserTable.deletedAt)
+      : status === "deleted"
+        ? isNotNull(DbUserTable.deletedAt)
+        : undefined,
+    // Instructors only see students of their own courses.
+    courseIds != null
+      ? inArray(
+          DbUserTable.id,
+          db
+            .select({ userId: UserCourseAccessTable.userId })
+            .from(UserCourseAccessTable)
+            .where(inArray(UserCourseAccessTable.courseId, courseIds))
+        )
+      : undefined
+  );
+}
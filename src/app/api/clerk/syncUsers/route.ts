@@ -1,3 +1,5 @@
+import { UserRole } from "@/drizzle/schema";
+import { redeemEnrollmentInvitations } from "@/features/courses/db/enrollmentInvitations";
 import { insertUser } from "@/features/users/db/users";
 import { syncClerkUserMetadata } from "@/services/clerk";
 import { currentUser } from "@clerk/nextjs/server";
@@ -32,13 +34,14 @@ export async function GET(request: Request) {
       name,
       email,
       imageUrl: user.imageUrl,
-      role: (user.publicMetadata?.role as "user" | "admin") ?? "user",
+      role: (user.publicMetadata?.role as UserRole) ?? "user",
     });
 
     console.log("User inserted/updated:", dbUser?.id);
 
     if (dbUser) {
       await syncClerkUserMetadata(dbUser);
+      await redeemEnrollmentInvitations({ userId: dbUser.id, email });
       console.log("Metadata synced, redirecting to home");
     }
 
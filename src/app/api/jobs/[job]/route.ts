@@ -0,0 +1,34 @@
+import { env } from "@/data/env/server";
+import { isJobName, runJob } from "@/services/jobs";
+import { timingSafeEqual } from "crypto";
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ job: string }> }
+) {
+  if (!isAuthorized(req.headers.get("authorization"))) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { job } = await params;
+  if (!isJobName(job)) return new Response("Job not found", { status: 404 });
+
+  try {
+    const result = await runJob(job);
+    console.log(`Job ${job} finished:`, result);
+    return Response.json(result);
+  } catch (err) {
+    console.error(`Job ${job} failed:`, err);
+    return new Response("Job failed", { status: 500 });
+  }
+}
+
+// Jobs cannot be run at all until a secret is configured.
+function isAuthorized(authorization: string | null) {
+  if (env.CRON_SECRET == null || authorization == null) return false;
+
+  const expected = Buffer.from(`Bearer ${env.CRON_SECRET}`);
+  const actual = Buffer.from(authorization);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,81 @@
+import {
+  getPurchaseIdBySessionId,
+  insertPurchase,
+} from "@/features/purchases/db/purchases";
+import { upsertSubscriptionDB } from "@/features/subscriptions/db/subscriptions";
+import { withDeferredRevalidation } from "@/lib/dataCache";
+import { getPaymentProvider } from "@/services/payments";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get("sessionId");
+  const session =
+    sessionId == null
+      ? null
+      : await getPaymentProvider().getCheckoutSession(sessionId);
+
+  if (session == null) {
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  if (!session.isPaid) {
+    return NextResponse.redirect(
+      new URL(`/products/${session.productId}/purchase`, request.url)
+    );
+  }
+
+  if (session.subscriptionId != null) {
+    // Saving the provider's current state is safe to repeat, so it does not
+    // matter whether the subscription webhook got here first.
+    const subscription = await getPaymentProvider().getSubscription(
+      session.subscriptionId
+    );
+    if (subscription != null) {
+      await withDeferredRevalidation(() => upsertSubscriptionDB(subscription));
+    }
+  } else {
+    // The payment webhook may have recorded this session already, and
+    // refreshing this url replays it, both of which insertPurchase ignores.
+    const purchase = await withDeferredRevalidation(() =>
+      insertPurchase({
+        userId: session.userId,
+        productId: session.productId,
+        pricePaidInCents: session.amountTotalInCents,
+        currency: session.currency,
+        stripeSessionId: session.id,
+        couponId: session.couponId,
+        discountInCents: session.discountInCents,
+        upgradeCreditInCents: session.upgradeCreditInCents,
+        isGift: session.isGift,
+      })
+    );
+
+    // The coupon or upgrade credit was used up before the payment came in, so
+    // the payment is given back and the receipt shows the purchase refunded.
+    if (purchase?.refundedAt != null) {
+      try {
+        await getPaymentProvider().refundCheckoutSession(session.id);
+      } catch (err) {
+        console.error("Error refunding rejected checkout:", session.id, err);
+      }
+
+      return NextResponse.redirect(
+        new URL(`/purchases/${purchase.id}`, request.url)
+      );
+    }
+  }
+
+  // Gift buyers are sent to their receipt, which shows the code to share.
+  if (session.isGift) {
+    const purchaseId = await getPurchaseIdBySessionId(session.id);
+    if (purchaseId != null) {
+      return NextResponse.redirect(
+        new URL(`/purchases/${purchaseId}`, request.url)
+      );
+    }
+  }
+
+  return NextResponse.redirect(
+    new URL(`/products/${session.productId}/purchase/success`, request.url)
+  );
+}
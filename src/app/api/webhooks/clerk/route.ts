@@ -1,4 +1,6 @@
 import { env } from "@/data/env/server";
+import { UserRole } from "@/drizzle/schema";
+import { redeemEnrollmentInvitations } from "@/features/courses/db/enrollmentInvitations";
 import { deleteUser, insertUser, updateUser } from "@/features/users/db/users";
 import { syncClerkUserMetadata } from "@/services/clerk";
 import { WebhookEvent } from "@clerk/nextjs/server";
@@ -64,6 +66,7 @@ export async function POST(req: Request) {
 
         if (user) {
           await syncClerkUserMetadata(user);
+          await redeemEnrollmentInvitations({ userId: user.id, email });
         }
       } else {
         await updateUser(
@@ -72,8 +75,7 @@ export async function POST(req: Request) {
             email,
             name,
             imageUrl: event.data.image_url,
-            role:
-              (event.data.public_metadata?.role as "user" | "admin") || "user",
+            role: (event.data.public_metadata?.role as UserRole) || "user",
           }
         );
       }
@@ -0,0 +1,44 @@
+import { processPaymentEvent } from "@/features/purchases/db/paymentEvents";
+import { getPaymentProvider, PaymentEvent } from "@/services/payments";
+
+export async function POST(req: Request) {
+  const body = await req.text();
+  let event: PaymentEvent;
+
+  try {
+    event = await getPaymentProvider().verifyWebhook(body, req.headers);
+  } catch (err) {
+    console.error("Error verifying payment webhook:", err);
+    return new Response("Error occurred", {
+      status: 400,
+    });
+  }
+
+  const { status, rejectedSessionId } = await processPaymentEvent(event);
+
+  // Refunded only now that the purchase is committed, so the refund event it
+  // triggers finds the purchase already refunded and is ignored.
+  if (rejectedSessionId != null) {
+    try {
+      await getPaymentProvider().refundCheckoutSession(rejectedSessionId);
+    } catch (err) {
+      console.error(
+        "Error refunding rejected checkout:",
+        rejectedSessionId,
+        err
+      );
+    }
+  }
+
+  switch (status) {
+    case "outOfOrder":
+      // A non 2xx response makes the provider deliver the event again later,
+      // by which time the checkout it depends on should have been recorded.
+      console.warn("Payment event received out of order:", event.id);
+      return new Response("Event received out of order", { status: 409 });
+    case "duplicate":
+      return new Response("Event already processed", { status: 200 });
+  }
+
+  return new Response("", { status: 200 });
+}
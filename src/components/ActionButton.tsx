@@ -31,7 +31,11 @@ export function ActionButton({
     function performAction() {
       startTransition(async () => {
         const data = await action();
-        toast.success(data.message);
+        if (data.error) {
+          toast.error(data.message);
+        } else {
+          toast.success(data.message);
+        }
       });
     }
 
@@ -60,7 +64,11 @@ export function ActionButton({
     }
 
     return (
-      <Button {...props} disabled={isLoading} onClick={performAction}>
+      <Button
+        {...props}
+        disabled={isLoading || props.disabled}
+        onClick={performAction}
+      >
         <LoadingTextSwap isLoading={isLoading}>
           {props.children}
         </LoadingTextSwap>
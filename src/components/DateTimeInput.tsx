@@ -0,0 +1,32 @@
+"use client";
+
+import { ComponentProps } from "react";
+import { Input } from "./ui/input";
+
+// Times are picked in the user's local time zone.
+export function DateTimeInput({
+  value,
+  onChange,
+  ...props
+}: Omit<ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value: Date | null;
+  onChange: (value: Date | null) => void;
+}) {
+  return (
+    <Input
+      type="datetime-local"
+      {...props}
+      value={value == null ? "" : toDateTimeInputValue(value)}
+      onChange={(e) =>
+        onChange(e.target.value === "" ? null : new Date(e.target.value))
+      }
+    />
+  );
+}
+
+function toDateTimeInputValue(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,13 @@
+import { formatPlural } from "@/lib/formatter";
+import { HourglassIcon } from "lucide-react";
+import { Badge } from "./ui/badge";
+
+export function DripDaysBadge({ dripDays }: { dripDays: number }) {
+  return (
+    <Badge variant="outline" className="ml-2">
+      <HourglassIcon />
+      Unlocks after{" "}
+      {formatPlural(dripDays, { singular: "day", plural: "days" })}
+    </Badge>
+  );
+}
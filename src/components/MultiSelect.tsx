@@ -0,0 +1,109 @@
+"use client";
+
+import { ChevronsUpDownIcon, XIcon } from "lucide-react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { cn } from "@/lib/utils";
+
+export function MultiSelect<T>({
+  options,
+  getValue,
+  getLabel,
+  selectedValues,
+  onSelectedValuesChange,
+  selectPlaceholder = "Select...",
+  noResultsMessage = "No results",
+  className,
+}: {
+  options: T[];
+  getValue: (option: T) => string;
+  getLabel: (option: T) => string;
+  selectedValues: string[];
+  onSelectedValuesChange: (values: string[]) => void;
+  selectPlaceholder?: string;
+  noResultsMessage?: string;
+  className?: string;
+}) {
+  const selectedOptions = options.filter((option) =>
+    selectedValues.includes(getValue(option))
+  );
+
+  function toggleValue(value: string) {
+    onSelectedValuesChange(
+      selectedValues.includes(value)
+        ? selectedValues.filter((v) => v !== value)
+        : [...selectedValues, value]
+    );
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          className={cn(
+            "w-full h-auto min-h-9 justify-between font-normal",
+            className
+          )}
+        >
+          <div className="flex flex-wrap gap-1">
+            {selectedOptions.length === 0 ? (
+              <span className="text-muted-foreground">{selectPlaceholder}</span>
+            ) : (
+              selectedOptions.map((option) => (
+                <Badge
+                  key={getValue(option)}
+                  variant="secondary"
+                  className="gap-1"
+                >
+                  {getLabel(option)}
+                  <span
+                    role="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleValue(getValue(option));
+                    }}
+                  >
+                    <XIcon />
+                    <span className="sr-only">Remove</span>
+                  </span>
+                </Badge>
+              ))
+            )}
+          </div>
+          <ChevronsUpDownIcon className="opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-(--radix-popover-trigger-width) p-1"
+      >
+        {options.length === 0 ? (
+          <div className="p-2 text-sm text-muted-foreground">
+            {noResultsMessage}
+          </div>
+        ) : (
+          options.map((option) => {
+            const value = getValue(option);
+
+            return (
+              <label
+                key={value}
+                className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent cursor-pointer"
+              >
+                <Checkbox
+                  checked={selectedValues.includes(value)}
+                  onCheckedChange={() => toggleValue(value)}
+                />
+                {getLabel(option)}
+              </label>
+            );
+          })
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { ComponentProps } from "react";
+import { Input } from "./ui/input";
+
+// Whole numbers of at least 1, with an empty input meaning null.
+export function NullableNumberInput({
+  value,
+  onChange,
+  ...props
+}: Omit<ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  return (
+    <Input
+      type="number"
+      {...props}
+      value={value ?? ""}
+      step={1}
+      min={1}
+      onChange={(e) =>
+        onChange(isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)
+      }
+    />
+  );
+}
@@ -0,0 +1,57 @@
+import { Button } from "./ui/button";
+import Link from "next/link";
+
+export function Pagination({
+  page,
+  pageCount,
+  getPageHref,
+}: {
+  page: number;
+  pageCount: number;
+  getPageHref: (page: number) => string;
+}) {
+  return (
+    <div className="flex gap-4 items-center justify-end">
+      <div className="text-sm text-muted-foreground">
+        Page {Math.min(page, pageCount)} of {pageCount}
+      </div>
+      <PageLink href={page > 1 ? getPageHref(page - 1) : undefined}>
+        Previous
+      </PageLink>
+      <PageLink href={page < pageCount ? getPageHref(page + 1) : undefined}>
+        Next
+      </PageLink>
+    </div>
+  );
+}
+
+function PageLink({
+  href,
+  children,
+}: {
+  href: string | undefined;
+  children: React.ReactNode;
+}) {
+  if (href == null) {
+    return (
+      <Button variant="outline" disabled>
+        {children}
+      </Button>
+    );
+  }
+
+  return (
+    <Button variant="outline" asChild>
+      <Link href={href}>{children}</Link>
+    </Button>
+  );
+}
+
+export function toSearchParams(params: Record<string, unknown>) {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value != null) searchParams.set(key, String(value));
+  });
+
+  return searchParams;
+}
@@ -0,0 +1,12 @@
+import { formatDate } from "@/lib/formatter";
+import { CalendarClockIcon } from "lucide-react";
+import { Badge } from "./ui/badge";
+
+export function PublishAtBadge({ publishAt }: { publishAt: Date }) {
+  return (
+    <Badge variant="outline" className="ml-2">
+      <CalendarClockIcon />
+      Publishes {formatDate(publishAt)}
+    </Badge>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { ReactNode, useId, useOptimistic, useTransition } from "react";
+import { DndContext, DragEndEvent } from "@dnd-kit/core";
+import {
+  arrayMove,
+  SortableContext,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { GripVerticalIcon } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+export function SortableList<T extends { id: string }>({
+  items,
+  onOrderChange,
+  children,
+}: {
+  items: T[];
+  onOrderChange: (
+    newOrder: string[]
+  ) => Promise<{ error: boolean; message: string }>;
+  children: (items: T[]) => ReactNode;
+}) {
+  const dndContextId = useId();
+  const [optimisticItems, setOptimisticItems] = useOptimistic(items);
+  const [, startTransition] = useTransition();
+
+  function handleDragEnd({ active, over }: DragEndEvent) {
+    const activeId = active.id.toString();
+    const overId = over?.id.toString();
+    if (overId == null || activeId === overId) return;
+
+    const newItems = moveItem(optimisticItems, activeId, overId);
+
+    startTransition(async () => {
+      setOptimisticItems(newItems);
+      const data = await onOrderChange(newItems.map((item) => item.id));
+
+      if (data.error) {
+        toast.error(data.message);
+      } else {
+        toast.success(data.message);
+      }
+    });
+  }
+
+  return (
+    <DndContext id={dndContextId} onDragEnd={handleDragEnd}>
+      <SortableContext
+        items={optimisticItems}
+        strategy={verticalListSortingStrategy}
+      >
+        <div className="flex flex-col">{children(optimisticItems)}</div>
+      </SortableContext>
+    </DndContext>
+  );
+}
+
+export function SortableItem({
+  id,
+  children,
+  className,
+}: {
+  id: string;
+  children: ReactNode;
+  className?: string;
+}) {
+  const {
+    setNodeRef,
+    transform,
+    transition,
+    activeIndex,
+    index,
+    attributes,
+    listeners,
+  } = useSortable({ id });
+  const isActive = activeIndex === index;
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+      }}
+      className={cn(
+        "flex gap-1 items-center bg-background rounded-lg p-2",
+        isActive && "z-10 border shadow-md"
+      )}
+    >
+      <GripVerticalIcon
+        className="text-muted-foreground size-6 p-1 cursor-grab"
+        {...attributes}
+        {...listeners}
+      />
+      <div className={cn("flex-grow", className)}>{children}</div>
+    </div>
+  );
+}
+
+function moveItem<T extends { id: string }>(
+  items: T[],
+  activeId: string,
+  overId: string
+) {
+  const oldIndex = items.findIndex((item) => item.id === activeId);
+  const newIndex = items.findIndex((item) => item.id === overId);
+
+  return arrayMove(items, oldIndex, newIndex);
+}
@@ -10,6 +10,14 @@ export const env = createEnv({
     DB_PORT: z.coerce.number().default(5432),
     CLERK_SECRET_KEY: z.string().min(1),
     CLERK_WEBHOOK_SECRET: z.string().min(1),
+    PAYMENT_PROVIDER: z.enum(["stripe", "fake"]).default("stripe"),
+    STRIPE_SECRET_KEY: z.string().min(1).optional(),
+    STRIPE_WEBHOOK_SECRET: z.string().min(1).optional(),
+    // Required when PAYMENT_PROVIDER is "fake", webhooks are rejected without it.
+    FAKE_PAYMENTS_WEBHOOK_SECRET: z.string().min(1).optional(),
+    // Sent as a bearer token by the scheduler that triggers background jobs,
+    // which Vercel Cron does by itself. Jobs never run while it is unset.
+    CRON_SECRET: z.string().min(1).optional(),
   },
   experimental__runtimeEnv: process.env,
 });
@@ -0,0 +1,12 @@
+CREATE TYPE "public"."payment_event_status" AS ENUM('processed', 'ignored');--> statement-breakpoint
+CREATE TABLE "payment_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"providerEventId" text NOT NULL,
+	"type" text NOT NULL,
+	"stripeSessionId" text,
+	"status" "payment_event_status" NOT NULL,
+	"payload" jsonb NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_events_providerEventId_unique" UNIQUE("providerEventId")
+);
@@ -0,0 +1 @@
+ALTER TABLE "purchases" ADD COLUMN "refundedAmountInCents" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE SEQUENCE "public"."purchase_receipt_numbers" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1;--> statement-breakpoint
+ALTER TABLE "purchases" ADD COLUMN "receiptNumber" integer;--> statement-breakpoint
+UPDATE "purchases" SET "receiptNumber" = "numbered"."receiptNumber" FROM (SELECT "id", nextval('"public"."purchase_receipt_numbers"') AS "receiptNumber" FROM (SELECT "id" FROM "purchases" ORDER BY "createdAt", "id") AS "ordered") AS "numbered" WHERE "purchases"."id" = "numbered"."id";--> statement-breakpoint
+ALTER TABLE "purchases" ADD CONSTRAINT "purchases_receiptNumber_unique" UNIQUE("receiptNumber");
\ No newline at end of file
@@ -0,0 +1,11 @@
+ALTER TYPE "public"."user_role" ADD VALUE 'instructor' BEFORE 'user';--> statement-breakpoint
+CREATE TABLE "course_instructors" (
+	"courseId" uuid NOT NULL,
+	"userId" uuid NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "course_instructors_courseId_userId_pk" PRIMARY KEY("courseId","userId")
+);
+--> statement-breakpoint
+ALTER TABLE "course_instructors" ADD CONSTRAINT "course_instructors_courseId_courses_id_fk" FOREIGN KEY ("courseId") REFERENCES "public"."courses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "course_instructors" ADD CONSTRAINT "course_instructors_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "enrollment_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"courseId" uuid NOT NULL,
+	"redeemedByUserId" uuid,
+	"redeemedAt" timestamp with time zone,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "enrollment_invitations" ADD CONSTRAINT "enrollment_invitations_courseId_courses_id_fk" FOREIGN KEY ("courseId") REFERENCES "public"."courses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "enrollment_invitations" ADD CONSTRAINT "enrollment_invitations_redeemedByUserId_users_id_fk" FOREIGN KEY ("redeemedByUserId") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "enrollment_invitations_pending_unique" ON "enrollment_invitations" USING btree ("email","courseId") WHERE "enrollment_invitations"."redeemedAt" IS NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "products" ADD COLUMN "accessDurationMonths" integer;--> statement-breakpoint
+ALTER TABLE "purchases" ADD COLUMN "accessExpiresAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_course_access" ADD COLUMN "expiresAt" timestamp with time zone;
\ No newline at end of file
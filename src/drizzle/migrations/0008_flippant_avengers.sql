@@ -0,0 +1,18 @@
+CREATE TYPE "public"."subscription_interval" AS ENUM('month', 'year');--> statement-breakpoint
+CREATE TYPE "public"."subscription_status" AS ENUM('active', 'pastDue', 'canceled');--> statement-breakpoint
+CREATE TABLE "subscriptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"userId" uuid NOT NULL,
+	"productId" uuid NOT NULL,
+	"providerSubscriptionId" text NOT NULL,
+	"status" "subscription_status" NOT NULL,
+	"currentPeriodEnd" timestamp with time zone NOT NULL,
+	"cancelAtPeriodEnd" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "subscriptions_providerSubscriptionId_unique" UNIQUE("providerSubscriptionId")
+);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "subscriptionInterval" "subscription_interval";--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_productId_products_id_fk" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
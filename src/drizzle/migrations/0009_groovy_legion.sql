@@ -0,0 +1,20 @@
+CREATE TYPE "public"."coupon_discount_type" AS ENUM('percentage', 'fixed');--> statement-breakpoint
+CREATE TABLE "coupons" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"discountType" "coupon_discount_type" NOT NULL,
+	"discountValue" integer NOT NULL,
+	"productId" uuid,
+	"maxRedemptions" integer,
+	"maxRedemptionsPerUser" integer,
+	"startsAt" timestamp with time zone,
+	"endsAt" timestamp with time zone,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "coupons_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "purchases" ADD COLUMN "couponId" uuid;--> statement-breakpoint
+ALTER TABLE "purchases" ADD COLUMN "discountInCents" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_productId_products_id_fk" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchases" ADD CONSTRAINT "purchases_couponId_coupons_id_fk" FOREIGN KEY ("couponId") REFERENCES "public"."coupons"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TYPE "public"."currency" AS ENUM('usd', 'eur', 'gbp', 'cad', 'aud');--> statement-breakpoint
+CREATE TABLE "product_prices" (
+	"productId" uuid NOT NULL,
+	"currency" "currency" NOT NULL,
+	"priceInCents" integer NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "product_prices_productId_currency_pk" PRIMARY KEY("productId","currency")
+);
+--> statement-breakpoint
+ALTER TABLE "coupons" ADD COLUMN "currency" "currency";--> statement-breakpoint
+UPDATE "coupons" SET "currency" = 'usd' WHERE "discountType" = 'fixed';--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "priceInCents" integer;--> statement-breakpoint
+UPDATE "products" SET "priceInCents" = "priceDollars" * 100;--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "priceInCents" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" DROP COLUMN "priceDollars";--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "currency" "currency" DEFAULT 'usd' NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchases" ADD COLUMN "currency" "currency" DEFAULT 'usd' NOT NULL;--> statement-breakpoint
+ALTER TABLE "product_prices" ADD CONSTRAINT "product_prices_productId_products_id_fk" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "purchases" ADD COLUMN "giftCode" text;--> statement-breakpoint
+ALTER TABLE "purchases" ADD COLUMN "giftRedeemedByUserId" uuid;--> statement-breakpoint
+ALTER TABLE "purchases" ADD COLUMN "giftRedeemedAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "purchases" ADD CONSTRAINT "purchases_giftRedeemedByUserId_users_id_fk" FOREIGN KEY ("giftRedeemedByUserId") REFERENCES "public"."users"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "purchases" ADD CONSTRAINT "purchases_giftCode_unique" UNIQUE("giftCode");
\ No newline at end of file
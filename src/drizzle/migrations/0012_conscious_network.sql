@@ -0,0 +1,2 @@
+ALTER TABLE "products" ADD COLUMN "allowsUpgradeCredit" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "purchases" ADD COLUMN "upgradeCreditInCents" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "courses" ADD COLUMN "archivedAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "archivedAt" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,45 @@
+CREATE TABLE "course_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"courseId" uuid NOT NULL,
+	"number" integer NOT NULL,
+	"content" jsonb NOT NULL,
+	"authorId" uuid,
+	"rolledBackFromRevisionId" uuid,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "course_revisions_courseId_number_unique" UNIQUE("courseId","number")
+);
+--> statement-breakpoint
+ALTER TABLE "courses" ADD COLUMN "publishedRevisionId" uuid;--> statement-breakpoint
+ALTER TABLE "course_revisions" ADD CONSTRAINT "course_revisions_courseId_courses_id_fk" FOREIGN KEY ("courseId") REFERENCES "public"."courses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "course_revisions" ADD CONSTRAINT "course_revisions_authorId_users_id_fk" FOREIGN KEY ("authorId") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "course_revisions" ADD CONSTRAINT "course_revisions_rolledBackFromRevisionId_course_revisions_id_fk" FOREIGN KEY ("rolledBackFromRevisionId") REFERENCES "public"."course_revisions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "courses" ADD CONSTRAINT "courses_publishedRevisionId_course_revisions_id_fk" FOREIGN KEY ("publishedRevisionId") REFERENCES "public"."course_revisions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "course_revisions" ("courseId", "number", "content")
+SELECT "courses"."id", 1, jsonb_build_object(
+	'title', "courses"."title",
+	'description', "courses"."description",
+	'sections', COALESCE((
+		SELECT jsonb_agg(jsonb_build_object(
+			'id', "course_sections"."id",
+			'name', "course_sections"."name",
+			'status', "course_sections"."status",
+			'lessons', COALESCE((
+				SELECT jsonb_agg(jsonb_build_object(
+					'id', "lessons"."id",
+					'name', "lessons"."name",
+					'description', "lessons"."description",
+					'status', "lessons"."status",
+					'youtubeVideoId', "lessons"."youtubeVideoId"
+				) ORDER BY "lessons"."order")
+				FROM "lessons"
+				WHERE "lessons"."sectionId" = "course_sections"."id"
+			), '[]'::jsonb)
+		) ORDER BY "course_sections"."order")
+		FROM "course_sections"
+		WHERE "course_sections"."courseId" = "courses"."id"
+	), '[]'::jsonb)
+)
+FROM "courses";--> statement-breakpoint
+UPDATE "courses" SET "publishedRevisionId" = "course_revisions"."id"
+FROM "course_revisions"
+WHERE "course_revisions"."courseId" = "courses"."id";
@@ -0,0 +1,2 @@
+ALTER TABLE "course_sections" ADD COLUMN "dripDays" integer;--> statement-breakpoint
+ALTER TABLE "lessons" ADD COLUMN "dripDays" integer;
\ No newline at end of file
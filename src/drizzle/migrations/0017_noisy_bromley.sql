@@ -0,0 +1,24 @@
+ALTER TABLE "purchases" ADD COLUMN "creditedByPurchaseId" uuid;--> statement-breakpoint
+ALTER TABLE "purchases" ADD CONSTRAINT "purchases_creditedByPurchaseId_purchases_id_fk" FOREIGN KEY ("creditedByPurchaseId") REFERENCES "public"."purchases"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE "purchases" SET "creditedByPurchaseId" = "bundle_purchases"."id"
+FROM "purchases" AS "bundle_purchases"
+WHERE "bundle_purchases"."upgradeCreditInCents" > 0
+	AND "bundle_purchases"."refundedAt" IS NULL
+	AND "purchases"."userId" = "bundle_purchases"."userId"
+	AND "purchases"."currency" = "bundle_purchases"."currency"
+	AND "purchases"."productId" <> "bundle_purchases"."productId"
+	AND "purchases"."createdAt" < "bundle_purchases"."createdAt"
+	AND "purchases"."giftCode" IS NULL
+	AND "purchases"."refundedAt" IS NULL
+	AND EXISTS (
+		SELECT 1 FROM "course_products"
+		WHERE "course_products"."productId" = "purchases"."productId"
+	)
+	AND NOT EXISTS (
+		SELECT 1 FROM "course_products"
+		WHERE "course_products"."productId" = "purchases"."productId"
+			AND "course_products"."courseId" NOT IN (
+				SELECT "courseId" FROM "course_products" AS "bundle_courses"
+				WHERE "bundle_courses"."productId" = "bundle_purchases"."productId"
+			)
+	);
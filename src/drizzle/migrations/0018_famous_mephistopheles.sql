@@ -0,0 +1,2 @@
+ALTER TABLE "course_sections" ADD COLUMN "deletedAt" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "lessons" ADD COLUMN "deletedAt" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,15 @@
+ALTER TABLE "user_course_access" ADD COLUMN "manuallyGranted" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "user_course_access" SET "manuallyGranted" = true
+WHERE "user_course_access"."expiresAt" IS NULL
+	AND NOT EXISTS (
+		SELECT 1 FROM "purchases"
+		INNER JOIN "course_products"
+			ON "course_products"."productId" = "purchases"."productId"
+		WHERE "course_products"."courseId" = "user_course_access"."courseId"
+			AND "purchases"."refundedAt" IS NULL
+			AND "purchases"."accessExpiresAt" IS NULL
+			AND (
+				("purchases"."userId" = "user_course_access"."userId" AND "purchases"."giftCode" IS NULL)
+				OR "purchases"."giftRedeemedByUserId" = "user_course_access"."userId"
+			)
+	);
@@ -1,9 +1,17 @@
+export * from "./schema/coupon";
 export * from "./schema/course";
+export * from "./schema/courseInstructor";
 export * from "./schema/courseProduct";
+export * from "./schema/courseRevision";
 export * from "./schema/courseSection";
+export * from "./schema/currency";
+export * from "./schema/enrollmentInvitation";
 export * from "./schema/lesson";
+export * from "./schema/paymentEvent";
 export * from "./schema/product";
+export * from "./schema/productPrice";
 export * from "./schema/purchase";
+export * from "./schema/subscription";
 export * from "./schema/user";
 export * from "./schema/userCourseAccess";
 export * from "./schema/userLessonComplete";
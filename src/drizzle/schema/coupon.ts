@@ -0,0 +1,49 @@
+import {
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { createdAt, id, updatedAt } from "../schemaHelpers";
+import { relations } from "drizzle-orm";
+import { currencyEnum } from "./currency";
+import { ProductTable } from "./product";
+import { PurchaseTable } from "./purchase";
+
+export const couponDiscountTypes = ["percentage", "fixed"] as const;
+export type CouponDiscountType = (typeof couponDiscountTypes)[number];
+export const couponDiscountTypeEnum = pgEnum(
+  "coupon_discount_type",
+  couponDiscountTypes
+);
+
+export const CouponTable = pgTable("coupons", {
+  id,
+  // Stored uppercase so codes are matched case-insensitively.
+  code: text().notNull().unique(),
+  discountType: couponDiscountTypeEnum().notNull(),
+  // A percentage from 1 to 100, or an amount in cents for fixed discounts.
+  discountValue: integer().notNull(),
+  // Fixed discounts only apply to checkouts in their own currency.
+  currency: currencyEnum(),
+  // Coupons without a product apply to every product.
+  productId: uuid().references(() => ProductTable.id, {
+    onDelete: "cascade",
+  }),
+  maxRedemptions: integer(),
+  maxRedemptionsPerUser: integer(),
+  startsAt: timestamp({ withTimezone: true }),
+  endsAt: timestamp({ withTimezone: true }),
+  createdAt,
+  updatedAt,
+});
+
+export const CouponRelationships = relations(CouponTable, ({ one, many }) => ({
+  product: one(ProductTable, {
+    fields: [CouponTable.productId],
+    references: [ProductTable.id],
+  }),
+  purchases: many(PurchaseTable),
+}));
@@ -1,7 +1,15 @@
-import { pgTable, text } from "drizzle-orm/pg-core";
+import {
+  AnyPgColumn,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
 import { createdAt, id, updatedAt } from "../schemaHelpers";
 import { relations } from "drizzle-orm";
+import { CourseInstructorTable } from "./courseInstructor";
 import { CourseProductTable } from "./courseProduct";
+import { CourseRevisionTable } from "./courseRevision";
 import { UserCourseAccessTable } from "./userCourseAccess";
 import { CourseSectionTable } from "./courseSection";
 
@@ -9,12 +17,25 @@ export const CourseTable = pgTable("courses", {
   id,
   title: text().notNull(),
   description: text().notNull(),
+  // Archived courses are no longer sold, but learners keep their access.
+  archivedAt: timestamp({ withTimezone: true }),
+  // Learners see this revision, never the draft being edited.
+  publishedRevisionId: uuid().references(
+    (): AnyPgColumn => CourseRevisionTable.id,
+    { onDelete: "set null" }
+  ),
   createdAt,
   updatedAt,
 });
 
-export const CourseRelationships = relations(CourseTable, ({ many }) => ({
+export const CourseRelationships = relations(CourseTable, ({ one, many }) => ({
   courseProducts: many(CourseProductTable),
   userCourseAccesses: many(UserCourseAccessTable),
   courseSections: many(CourseSectionTable),
+  courseInstructors: many(CourseInstructorTable),
+  revisions: many(CourseRevisionTable, { relationName: "courseRevisions" }),
+  publishedRevision: one(CourseRevisionTable, {
+    fields: [CourseTable.publishedRevisionId],
+    references: [CourseRevisionTable.id],
+  }),
 }));
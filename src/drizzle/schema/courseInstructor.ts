@@ -0,0 +1,34 @@
+import { pgTable, primaryKey, uuid } from "drizzle-orm/pg-core";
+import { createdAt, updatedAt } from "../schemaHelpers";
+import { relations } from "drizzle-orm";
+import { CourseTable } from "./course";
+import { UserTable } from "./user";
+
+export const CourseInstructorTable = pgTable(
+  "course_instructors",
+  {
+    courseId: uuid()
+      .notNull()
+      .references(() => CourseTable.id, { onDelete: "cascade" }),
+    userId: uuid()
+      .notNull()
+      .references(() => UserTable.id, { onDelete: "cascade" }),
+    createdAt,
+    updatedAt,
+  },
+  (t) => [primaryKey({ columns: [t.courseId, t.userId] })]
+);
+
+export const CourseInstructorRelationships = relations(
+  CourseInstructorTable,
+  ({ one }) => ({
+    course: one(CourseTable, {
+      fields: [CourseInstructorTable.courseId],
+      references: [CourseTable.id],
+    }),
+    user: one(UserTable, {
+      fields: [CourseInstructorTable.userId],
+      references: [UserTable.id],
+    }),
+  })
+);
@@ -0,0 +1,75 @@
+import {
+  AnyPgColumn,
+  integer,
+  jsonb,
+  pgTable,
+  unique,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { createdAt, id } from "../schemaHelpers";
+import { relations } from "drizzle-orm";
+import { CourseTable } from "./course";
+import { CourseSectionStatus } from "./courseSection";
+import { LessonStatus } from "./lesson";
+import { UserTable } from "./user";
+
+// Everything learners see of a course, with sections and lessons in order.
+export type CourseRevisionContent = {
+  title: string;
+  description: string;
+  sections: {
+    id: string;
+    name: string;
+    status: CourseSectionStatus;
+    // Missing from revisions published before drip content existed.
+    dripDays?: number | null;
+    lessons: {
+      id: string;
+      name: string;
+      description: string | null;
+      status: LessonStatus;
+      youtubeVideoId: string | null;
+      dripDays?: number | null;
+    }[];
+  }[];
+};
+
+// Revisions are immutable snapshots taken every time a course is published.
+// The course, section and lesson tables always hold the draft.
+export const CourseRevisionTable = pgTable(
+  "course_revisions",
+  {
+    id,
+    courseId: uuid()
+      .notNull()
+      .references(() => CourseTable.id, { onDelete: "cascade" }),
+    number: integer().notNull(),
+    content: jsonb().notNull().$type<CourseRevisionContent>(),
+    authorId: uuid().references(() => UserTable.id, { onDelete: "set null" }),
+    rolledBackFromRevisionId: uuid().references(
+      (): AnyPgColumn => CourseRevisionTable.id,
+      { onDelete: "set null" }
+    ),
+    createdAt,
+  },
+  (t) => [unique().on(t.courseId, t.number)]
+);
+
+export const CourseRevisionRelationships = relations(
+  CourseRevisionTable,
+  ({ one }) => ({
+    course: one(CourseTable, {
+      fields: [CourseRevisionTable.courseId],
+      references: [CourseTable.id],
+      relationName: "courseRevisions",
+    }),
+    author: one(UserTable, {
+      fields: [CourseRevisionTable.authorId],
+      references: [UserTable.id],
+    }),
+    rolledBackFromRevision: one(CourseRevisionTable, {
+      fields: [CourseRevisionTable.rolledBackFromRevisionId],
+      references: [CourseRevisionTable.id],
+    }),
+  })
+);
@@ -1,4 +1,11 @@
-import { integer, pgEnum, pgTable, text, uuid } from "drizzle-orm/pg-core";
+import {
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
 import { createdAt, id, updatedAt } from "../schemaHelpers";
 import { CourseTable } from "./course";
 import { relations } from "drizzle-orm";
@@ -19,6 +26,13 @@ export const CourseSectionTable = pgTable("course_sections", {
   name: text().notNull(),
   status: courseSectionStatusEnum().notNull().default("private"),
   order: integer().notNull(),
+  // Private content is made public by the scheduled publishing job once this
+  // time has passed.
+  publishAt: timestamp({ withTimezone: true }),
+  // Days after a learner is given access before the section's lessons unlock.
+  dripDays: integer(),
+  // Set when the section is deleted from the draft, together with its lessons.
+  deletedAt: timestamp({ withTimezone: true }),
   createdAt,
   updatedAt,
 });
@@ -0,0 +1,7 @@
+import { pgEnum } from "drizzle-orm/pg-core";
+
+// Lowercase ISO 4217 codes. Every supported currency has two decimal places,
+// so amounts are always stored in cents.
+export const currencies = ["usd", "eur", "gbp", "cad", "aud"] as const;
+export type Currency = (typeof currencies)[number];
+export const currencyEnum = pgEnum("currency", currencies);
@@ -0,0 +1,49 @@
+import {
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { createdAt, id, updatedAt } from "../schemaHelpers";
+import { relations, sql } from "drizzle-orm";
+import { CourseTable } from "./course";
+import { UserTable } from "./user";
+
+// Course access promised to an email that has no account yet. It is turned
+// into real access when a user with that email first syncs.
+export const EnrollmentInvitationTable = pgTable(
+  "enrollment_invitations",
+  {
+    id,
+    email: text().notNull(),
+    courseId: uuid()
+      .notNull()
+      .references(() => CourseTable.id, { onDelete: "cascade" }),
+    redeemedByUserId: uuid().references(() => UserTable.id, {
+      onDelete: "set null",
+    }),
+    redeemedAt: timestamp({ withTimezone: true }),
+    createdAt,
+    updatedAt,
+  },
+  (t) => [
+    uniqueIndex("enrollment_invitations_pending_unique")
+      .on(t.email, t.courseId)
+      .where(sql`${t.redeemedAt} IS NULL`),
+  ]
+);
+
+export const EnrollmentInvitationRelationships = relations(
+  EnrollmentInvitationTable,
+  ({ one }) => ({
+    course: one(CourseTable, {
+      fields: [EnrollmentInvitationTable.courseId],
+      references: [CourseTable.id],
+    }),
+    redeemedByUser: one(UserTable, {
+      fields: [EnrollmentInvitationTable.redeemedByUserId],
+      references: [UserTable.id],
+    }),
+  })
+);
@@ -1,4 +1,11 @@
-import { integer, pgEnum, pgTable, text, uuid } from "drizzle-orm/pg-core";
+import {
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
 import { createdAt, id, updatedAt } from "../schemaHelpers";
 import { relations } from "drizzle-orm";
 import { CourseSectionTable } from "./courseSection";
@@ -17,7 +24,12 @@ export const LessonTable = pgTable("lessons", {
   description: text(),
   status: lessonStatusEnum().notNull().default("private"),
   order: integer().notNull(),
+  publishAt: timestamp({ withTimezone: true }),
+  dripDays: integer(),
   youtubeVideoId: text(),
+  // Deleting from the draft only marks the row, so learner progress stays
+  // attached to lessons that published revisions still contain.
+  deletedAt: timestamp({ withTimezone: true }),
   createdAt,
   updatedAt,
 });
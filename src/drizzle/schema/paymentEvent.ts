@@ -0,0 +1,23 @@
+import { jsonb, pgEnum, pgTable, text } from "drizzle-orm/pg-core";
+import { createdAt, id, updatedAt } from "../schemaHelpers";
+
+export const paymentEventStatuses = ["processed", "ignored"] as const;
+export type PaymentEventStatus = (typeof paymentEventStatuses)[number];
+export const paymentEventStatusEnum = pgEnum(
+  "payment_event_status",
+  paymentEventStatuses
+);
+
+export const PaymentEventTable = pgTable("payment_events", {
+  id,
+  providerEventId: text().notNull().unique(),
+  type: text().notNull(),
+  stripeSessionId: text(),
+  status: paymentEventStatusEnum().notNull(),
+  payload: jsonb().notNull(),
+  createdAt,
+  updatedAt,
+});
+
+// providerEventId is unique so a redelivered webhook can never be recorded
+// (and therefore applied) twice.
@@ -1,23 +1,51 @@
-import { integer, pgEnum, pgTable, text } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
 import { createdAt, id, updatedAt } from "../schemaHelpers";
 import { relations } from "drizzle-orm";
 import { CourseProductTable } from "./courseProduct";
+import { currencyEnum } from "./currency";
+import { ProductPriceTable } from "./productPrice";
 
 export const productStatuses = ["public", "private"] as const;
 export type ProductStatus = (typeof productStatuses)[number];
 export const productStatusEnum = pgEnum("product_status", productStatuses);
 
+export const subscriptionIntervals = ["month", "year"] as const;
+export type SubscriptionInterval = (typeof subscriptionIntervals)[number];
+export const subscriptionIntervalEnum = pgEnum(
+  "subscription_interval",
+  subscriptionIntervals
+);
+
 export const ProductTable = pgTable("products", {
   id,
   name: text().notNull(),
   description: text().notNull(),
   imageUrl: text().notNull(),
-  priceDollars: integer().notNull(),
+  priceInCents: integer().notNull(),
+  currency: currencyEnum().notNull().default("usd"),
   status: productStatusEnum().notNull().default("private"),
+  // Months of course access a purchase grants, or lifetime access when null.
+  accessDurationMonths: integer(),
+  // Subscription products bill the price every interval, while products
+  // without one are sold once.
+  subscriptionInterval: subscriptionIntervalEnum(),
+  // Bundles with upgrade credit take what the buyer already paid for the
+  // included courses off the price.
+  allowsUpgradeCredit: boolean().notNull().default(false),
+  // Archived products are hidden from the catalog whatever their status.
+  archivedAt: timestamp({ withTimezone: true }),
   createdAt,
   updatedAt,
 });
 
 export const ProductRelationships = relations(ProductTable, ({ many }) => ({
   courseProducts: many(CourseProductTable),
+  prices: many(ProductPriceTable),
 }));
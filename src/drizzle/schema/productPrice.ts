@@ -0,0 +1,31 @@
+import { integer, pgTable, primaryKey, uuid } from "drizzle-orm/pg-core";
+import { createdAt, updatedAt } from "../schemaHelpers";
+import { relations } from "drizzle-orm";
+import { currencyEnum } from "./currency";
+import { ProductTable } from "./product";
+
+// Prices that replace the product's own price when buying in another
+// currency.
+export const ProductPriceTable = pgTable(
+  "product_prices",
+  {
+    productId: uuid()
+      .notNull()
+      .references(() => ProductTable.id, { onDelete: "cascade" }),
+    currency: currencyEnum().notNull(),
+    priceInCents: integer().notNull(),
+    createdAt,
+    updatedAt,
+  },
+  (t) => [primaryKey({ columns: [t.productId, t.currency] })]
+);
+
+export const ProductPriceRelationships = relations(
+  ProductPriceTable,
+  ({ one }) => ({
+    product: one(ProductTable, {
+      fields: [ProductPriceTable.productId],
+      references: [ProductTable.id],
+    }),
+  })
+);
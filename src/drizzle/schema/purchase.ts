@@ -1,4 +1,6 @@
 import {
+  AnyPgColumn,
+  pgSequence,
   pgTable,
   integer,
   jsonb,
@@ -9,11 +11,20 @@ import {
 import { createdAt, id, updatedAt } from "../schemaHelpers";
 import { relations } from "drizzle-orm";
 import { UserTable } from "./user";
+import { currencyEnum } from "./currency";
 import { ProductTable } from "./product";
+import { CouponTable } from "./coupon";
+
+// Receipt numbers are drawn once a purchase is actually recorded, so replayed
+// checkouts that hit the stripeSessionId conflict never leave gaps.
+export const purchaseReceiptNumberSequence = pgSequence(
+  "purchase_receipt_numbers"
+);
 
 export const PurchaseTable = pgTable("purchases", {
   id,
   pricePaidInCents: integer().notNull(),
+  currency: currencyEnum().notNull().default("usd"),
   productDetails: jsonb()
     .notNull()
     .$type<{ name: string; description: string; imageUrl: string }>(),
@@ -25,6 +36,23 @@ export const PurchaseTable = pgTable("purchases", {
     .references(() => ProductTable.id, { onDelete: "restrict" }),
   stripeSessionId: text().notNull().unique(),
   refundedAt: timestamp({ withTimezone: true }),
+  refundedAmountInCents: integer().notNull().default(0),
+  receiptNumber: integer().unique(),
+  accessExpiresAt: timestamp({ withTimezone: true }),
+  couponId: uuid().references(() => CouponTable.id, { onDelete: "restrict" }),
+  discountInCents: integer().notNull().default(0),
+  upgradeCreditInCents: integer().notNull().default(0),
+  // Set once the purchase has been taken off the price of a bundle, so it is
+  // only ever credited once.
+  creditedByPurchaseId: uuid().references((): AnyPgColumn => PurchaseTable.id, {
+    onDelete: "set null",
+  }),
+  // Gifts grant access to whoever redeems the code instead of the buyer.
+  giftCode: text().unique(),
+  giftRedeemedByUserId: uuid().references(() => UserTable.id, {
+    onDelete: "restrict",
+  }),
+  giftRedeemedAt: timestamp({ withTimezone: true }),
   createdAt,
   updatedAt,
 });
@@ -34,8 +62,20 @@ export const PurchaseRelationships = relations(PurchaseTable, ({ one }) => ({
     fields: [PurchaseTable.userId],
     references: [UserTable.id],
   }),
+  giftRedeemedBy: one(UserTable, {
+    fields: [PurchaseTable.giftRedeemedByUserId],
+    references: [UserTable.id],
+  }),
   product: one(ProductTable, {
     fields: [PurchaseTable.productId],
     references: [ProductTable.id],
   }),
+  coupon: one(CouponTable, {
+    fields: [PurchaseTable.couponId],
+    references: [CouponTable.id],
+  }),
+  creditedByPurchase: one(PurchaseTable, {
+    fields: [PurchaseTable.creditedByPurchaseId],
+    references: [PurchaseTable.id],
+  }),
 }));
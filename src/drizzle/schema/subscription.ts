@@ -0,0 +1,51 @@
+import {
+  boolean,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { createdAt, id, updatedAt } from "../schemaHelpers";
+import { relations } from "drizzle-orm";
+import { UserTable } from "./user";
+import { ProductTable } from "./product";
+
+export const subscriptionStatuses = ["active", "pastDue", "canceled"] as const;
+export type SubscriptionStatus = (typeof subscriptionStatuses)[number];
+export const subscriptionStatusEnum = pgEnum(
+  "subscription_status",
+  subscriptionStatuses
+);
+
+// Mirrors the subscription held by the payment provider. Rows are only ever
+// written from provider data, which is the source of truth for the status.
+export const SubscriptionTable = pgTable("subscriptions", {
+  id,
+  userId: uuid()
+    .notNull()
+    .references(() => UserTable.id, { onDelete: "restrict" }),
+  productId: uuid()
+    .notNull()
+    .references(() => ProductTable.id, { onDelete: "restrict" }),
+  providerSubscriptionId: text().notNull().unique(),
+  status: subscriptionStatusEnum().notNull(),
+  currentPeriodEnd: timestamp({ withTimezone: true }).notNull(),
+  cancelAtPeriodEnd: boolean().notNull().default(false),
+  createdAt,
+  updatedAt,
+});
+
+export const SubscriptionRelationships = relations(
+  SubscriptionTable,
+  ({ one }) => ({
+    user: one(UserTable, {
+      fields: [SubscriptionTable.userId],
+      references: [UserTable.id],
+    }),
+    product: one(ProductTable, {
+      fields: [SubscriptionTable.productId],
+      references: [ProductTable.id],
+    }),
+  })
+);
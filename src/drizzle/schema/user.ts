@@ -1,9 +1,10 @@
 import { pgEnum, pgTable, text, timestamp } from "drizzle-orm/pg-core";
 import { createdAt, id, updatedAt } from "../schemaHelpers";
 import { relations } from "drizzle-orm";
+import { CourseInstructorTable } from "./courseInstructor";
 import { UserCourseAccessTable } from "./userCourseAccess";
 
-export const userRoles = ["admin", "user"] as const;
+export const userRoles = ["admin", "instructor", "user"] as const;
 export type UserRole = (typeof userRoles)[number];
 export const userRoleEnum = pgEnum("user_role", userRoles);
 
@@ -21,4 +22,5 @@ export const UserTable = pgTable("users", {
 
 export const UserRelationships = relations(UserTable, ({ many }) => ({
   userCourseAccesses: many(UserCourseAccessTable),
+  courseInstructors: many(CourseInstructorTable),
 }));
@@ -1,4 +1,10 @@
-import { pgTable, primaryKey, uuid } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  pgTable,
+  primaryKey,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
 import { createdAt, updatedAt } from "../schemaHelpers";
 import { relations } from "drizzle-orm";
 import { UserTable } from "./user";
@@ -13,6 +19,12 @@ export const UserCourseAccessTable = pgTable(
     courseId: uuid()
       .notNull()
       .references(() => CourseTable.id, { onDelete: "cascade" }),
+    // Access is permanent when null, otherwise it stops working at this time
+    // but the row is kept so it can be renewed.
+    expiresAt: timestamp({ withTimezone: true }),
+    // Set when access was given without a payment, manually, through bulk
+    // enrollment or an invitation, so refunds never take it away.
+    manuallyGranted: boolean().notNull().default(false),
     createdAt,
     updatedAt,
   },
@@ -0,0 +1,131 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { db } from "@/drizzle/db";
+import { Currency, ProductTable } from "@/drizzle/schema";
+import { getUpgradeCreditInCents } from "@/features/products/db/products";
+import { getProductPrice } from "@/features/products/lib/pricing";
+import { getCatalogProductWhere } from "@/features/products/lib/catalog";
+import { toCents } from "@/lib/money";
+import { getCurrentUser } from "@/services/clerk";
+import { can } from "@/permissions/policy";
+import { and, eq } from "drizzle-orm";
+import {
+  deleteCouponDB,
+  getRedeemableCoupon,
+  insertCoupon,
+  isCouponCodeTaken,
+  isCouponUsed,
+  updateCouponDB,
+} from "../db/coupons";
+import { couponSchema, CouponSchemaType } from "../schemas/coupons";
+
+export async function createCoupon(unsafeData: CouponSchemaType) {
+  const { success, data } = couponSchema.safeParse(unsafeData);
+
+  if (!success || !(await can(await getCurrentUser(), "create", "coupon"))) {
+    return { error: true, message: "There was an error creating your coupon" };
+  }
+
+  if (await isCouponCodeTaken(data.code)) {
+    return { error: true, message: "A coupon with this code already exists" };
+  }
+
+  await insertCoupon(toCouponData(data));
+  redirect("/admin/coupons");
+}
+
+export async function updateCoupon(id: string, unsafeData: CouponSchemaType) {
+  const { success, data } = couponSchema.safeParse(unsafeData);
+
+  if (!success || !(await can(await getCurrentUser(), "update", "coupon"))) {
+    return { error: true, message: "There was an error updating your coupon" };
+  }
+
+  if (await isCouponCodeTaken(data.code, id)) {
+    return { error: true, message: "A coupon with this code already exists" };
+  }
+
+  await updateCouponDB(id, toCouponData(data));
+  redirect("/admin/coupons");
+}
+
+export async function deleteCoupon(id: string) {
+  if (!(await can(await getCurrentUser(), "delete", "coupon"))) {
+    return {
+      error: true,
+      message: "You do not have permission to delete this coupon",
+    };
+  }
+
+  // Purchases keep pointing at the coupon they used for sales reporting.
+  if (await isCouponUsed(id)) {
+    return {
+      error: true,
+      message:
+        "Coupons that have been used cannot be deleted, end them instead",
+    };
+  }
+
+  await deleteCouponDB(id);
+  return { error: false, message: "Coupon deleted successfully" };
+}
+
+// Lets buyers see their discount before they are sent to the payment page.
+// The coupon is checked again when the checkout session is created.
+export async function previewCoupon(
+  productId: string,
+  currency: Currency,
+  code: string,
+  isGift = false
+) {
+  const { userId } = await getCurrentUser();
+  const product = await db.query.ProductTable.findFirst({
+    columns: { priceInCents: true, currency: true, subscriptionInterval: true },
+    where: and(eq(ProductTable.id, productId), getCatalogProductWhere()),
+    with: { prices: { columns: { currency: true, priceInCents: true } } },
+  });
+
+  if (userId == null || product == null) {
+    return {
+      error: true,
+      message: "There was an error applying your coupon",
+    } as const;
+  }
+
+  if (product.subscriptionInterval != null) {
+    return {
+      error: true,
+      message: "Coupons cannot be used for subscriptions",
+    } as const;
+  }
+
+  const price = getProductPrice(product, currency);
+  const upgradeCreditInCents = isGift
+    ? 0
+    : await getUpgradeCreditInCents({ userId, productId, ...price });
+  const result = await getRedeemableCoupon({
+    code,
+    productId,
+    userId,
+    currency: price.currency,
+    priceInCents: price.priceInCents - upgradeCreditInCents,
+  });
+
+  if (result.error) return result;
+
+  return {
+    error: false,
+    message: `Coupon ${result.coupon.code} applied`,
+    code: result.coupon.code,
+    discountInCents: result.discountInCents,
+  } as const;
+}
+
+function toCouponData({ discountValue, currency, ...data }: CouponSchemaType) {
+  if (data.discountType === "percentage") {
+    return { ...data, discountValue, currency: null };
+  }
+
+  return { ...data, discountValue: toCents(discountValue), currency };
+}
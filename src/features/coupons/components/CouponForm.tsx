@@ -0,0 +1,315 @@
+"use client";
+
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import RequiredLabelIcon from "@/components/RequiredLabelIcon";
+import { NullableNumberInput } from "@/components/NullableNumberInput";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import {
+  CouponDiscountType,
+  couponDiscountTypes,
+  currencies,
+  Currency,
+} from "@/drizzle/schema";
+import { couponSchema, CouponSchemaType } from "../schemas/coupons";
+import { createCoupon, updateCoupon } from "../actions/coupons";
+
+const CouponForm = ({
+  coupon,
+  products,
+}: {
+  coupon?: {
+    id: string;
+    code: string;
+    discountType: CouponDiscountType;
+    discountValue: number;
+    currency: Currency | null;
+    productId: string | null;
+    maxRedemptions: number | null;
+    maxRedemptionsPerUser: number | null;
+    startsAt: Date | null;
+    endsAt: Date | null;
+  };
+  products: { id: string; name: string }[];
+}) => {
+  const form = useForm<CouponSchemaType>({
+    resolver: zodResolver(couponSchema),
+    defaultValues: {
+      code: coupon?.code ?? "",
+      discountType: coupon?.discountType ?? "percentage",
+      discountValue: coupon?.discountValue ?? 10,
+      currency: coupon?.currency ?? null,
+      productId: coupon?.productId ?? null,
+      maxRedemptions: coupon?.maxRedemptions ?? null,
+      maxRedemptionsPerUser: coupon?.maxRedemptionsPerUser ?? null,
+      startsAt: coupon?.startsAt ?? null,
+      endsAt: coupon?.endsAt ?? null,
+    },
+  });
+
+  async function onSubmit(values: CouponSchemaType) {
+    const action = coupon ? updateCoupon.bind(null, coupon.id) : createCoupon;
+
+    const data = await action(values);
+    if (data?.error) toast.error(data.message);
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="flex gap-6 flex-col"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  Code
+                  <RequiredLabelIcon />
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="SUMMER25"
+                    className="uppercase"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="productId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Product</FormLabel>
+                <Select
+                  onValueChange={(value) =>
+                    field.onChange(value === "all" ? null : value)
+                  }
+                  defaultValue={field.value ?? "all"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="all">All products</SelectItem>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="discountType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Discount Type</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {couponDiscountTypes.map((discountType) => (
+                      <SelectItem key={discountType} value={discountType}>
+                        {discountType}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="discountValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  {form.watch("discountType") === "percentage"
+                    ? "Discount (%)"
+                    : "Discount Amount"}
+                  <RequiredLabelIcon />
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    {...field}
+                    step={
+                      form.watch("discountType") === "percentage" ? 1 : 0.01
+                    }
+                    min={0}
+                    onChange={(e) =>
+                      field.onChange(
+                        isNaN(e.target.valueAsNumber)
+                          ? ""
+                          : e.target.valueAsNumber
+                      )
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {form.watch("discountType") === "fixed" && (
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Currency
+                    <RequiredLabelIcon />
+                  </FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value ?? undefined}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a currency" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {currencies.map((currency) => (
+                        <SelectItem key={currency} value={currency}>
+                          {currency.toUpperCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="maxRedemptions"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max Redemptions</FormLabel>
+                <FormControl>
+                  <NullableNumberInput placeholder="Unlimited" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxRedemptionsPerUser"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max Redemptions Per User</FormLabel>
+                <FormControl>
+                  <NullableNumberInput placeholder="Unlimited" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="startsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts On</FormLabel>
+                <FormControl>
+                  <DateInput {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="endsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends On</FormLabel>
+                <FormControl>
+                  <DateInput {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="self-end">
+          <Button disabled={form.formState.isSubmitting} type="submit">
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default CouponForm;
+
+// Dates are picked in the admin's local time zone and start at midnight.
+function DateInput({
+  value,
+  onChange,
+  ...props
+}: Omit<React.ComponentProps<typeof Input>, "value" | "onChange"> & {
+  value: Date | null;
+  onChange: (value: Date | null) => void;
+}) {
+  return (
+    <Input
+      type="date"
+      {...props}
+      value={value == null ? "" : toDateInputValue(value)}
+      onChange={(e) =>
+        onChange(
+          e.target.value === "" ? null : new Date(`${e.target.value}T00:00`)
+        )
+      }
+    />
+  );
+}
+
+function toDateInputValue(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
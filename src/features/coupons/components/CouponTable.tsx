@@ -0,0 +1,131 @@
+import { ActionButton } from "@/components/ActionButton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CouponDiscountType, Currency } from "@/drizzle/schema";
+import { formatDate, formatPlural } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import { Trash2Icon } from "lucide-react";
+import Link from "next/link";
+import { deleteCoupon } from "../actions/coupons";
+
+type Coupon = {
+  id: string;
+  code: string;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  currency: Currency | null;
+  productName: string | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerUser: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  redemptionsCount: number;
+};
+
+const CouponTable = ({ coupons }: { coupons: Coupon[] }) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>
+            {formatPlural(coupons.length, {
+              singular: "coupon",
+              plural: "coupons",
+            })}
+          </TableHead>
+          <TableHead>Product</TableHead>
+          <TableHead>Redemptions</TableHead>
+          <TableHead>Active</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {coupons.map((coupon) => (
+          <TableRow key={coupon.id}>
+            <TableCell>
+              <div className="flex flex-col gap-1">
+                <div className="font-semibold font-mono">{coupon.code}</div>
+                <div className="text-muted-foreground">
+                  {coupon.discountType === "fixed" && coupon.currency != null
+                    ? `${formatMoney(coupon.discountValue, coupon.currency)} off`
+                    : `${coupon.discountValue}% off`}
+                </div>
+              </div>
+            </TableCell>
+            <TableCell>{coupon.productName ?? "All products"}</TableCell>
+            <TableCell>
+              <div className="flex flex-col gap-1">
+                <div>
+                  {coupon.redemptionsCount}
+                  {coupon.maxRedemptions != null &&
+                    ` / ${coupon.maxRedemptions}`}
+                </div>
+                {coupon.maxRedemptionsPerUser != null && (
+                  <div className="text-muted-foreground">
+                    {coupon.maxRedemptionsPerUser} per user
+                  </div>
+                )}
+              </div>
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-col gap-1 items-start">
+                {getStatusBadge(coupon)}
+                {(coupon.startsAt != null || coupon.endsAt != null) && (
+                  <div className="text-muted-foreground text-sm">
+                    {coupon.startsAt ? formatDate(coupon.startsAt) : "Now"} –{" "}
+                    {coupon.endsAt ? formatDate(coupon.endsAt) : "No end"}
+                  </div>
+                )}
+              </div>
+            </TableCell>
+            <TableCell>
+              <div className="flex gap-2">
+                <Button asChild>
+                  <Link href={`/admin/coupons/${coupon.id}/edit`}>Edit</Link>
+                </Button>
+                <ActionButton
+                  variant="destructive"
+                  requireAreYouSure
+                  action={deleteCoupon.bind(null, coupon.id)}
+                >
+                  <Trash2Icon />
+                  <span className="sr-only">Delete</span>
+                </ActionButton>
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default CouponTable;
+
+function getStatusBadge({
+  startsAt,
+  endsAt,
+  maxRedemptions,
+  redemptionsCount,
+}: Coupon) {
+  const now = new Date();
+
+  if (startsAt != null && startsAt > now) {
+    return <Badge variant="outline">Scheduled</Badge>;
+  }
+  if (endsAt != null && endsAt <= now) {
+    return <Badge variant="secondary">Ended</Badge>;
+  }
+  if (maxRedemptions != null && redemptionsCount >= maxRedemptions) {
+    return <Badge variant="secondary">Used up</Badge>;
+  }
+  return <Badge>Active</Badge>;
+}
@@ -0,0 +1,14 @@
+import { getGlobalTag, getIdTag, revalidateTag } from "@/lib/dataCache";
+
+export function getCouponGlobalTag() {
+  return getGlobalTag("coupons");
+}
+
+export function getCouponIdTag(id: string) {
+  return getIdTag("coupons", id);
+}
+
+export function revalidateCouponCache(id: string) {
+  revalidateTag(getCouponGlobalTag());
+  revalidateTag(getCouponIdTag(id));
+}
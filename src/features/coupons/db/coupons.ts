@@ -0,0 +1,193 @@
+import { db } from "@/drizzle/db";
+import { CouponTable, Currency, PurchaseTable } from "@/drizzle/schema";
+import { and, count, eq, isNull } from "drizzle-orm";
+import { getCouponDiscountInCents } from "../lib/discounts";
+import { revalidateCouponCache } from "./cache";
+
+export async function insertCoupon(data: typeof CouponTable.$inferInsert) {
+  const [newCoupon] = await db.insert(CouponTable).values(data).returning();
+
+  if (!newCoupon) throw new Error("Failed to create coupon");
+
+  revalidateCouponCache(newCoupon.id);
+
+  return newCoupon;
+}
+
+export async function updateCouponDB(
+  id: string,
+  data: Partial<typeof CouponTable.$inferInsert>
+) {
+  const [updatedCoupon] = await db
+    .update(CouponTable)
+    .set(data)
+    .where(eq(CouponTable.id, id))
+    .returning();
+
+  if (!updatedCoupon) throw new Error("Failed to update coupon");
+
+  revalidateCouponCache(updatedCoupon.id);
+
+  return updatedCoupon;
+}
+
+export async function deleteCouponDB(id: string) {
+  const [deletedCoupon] = await db
+    .delete(CouponTable)
+    .where(eq(CouponTable.id, id))
+    .returning();
+
+  if (!deletedCoupon) throw new Error("Failed to delete coupon");
+
+  revalidateCouponCache(deletedCoupon.id);
+
+  return deletedCoupon;
+}
+
+export async function isCouponCodeTaken(code: string, exceptId?: string) {
+  const coupon = await db.query.CouponTable.findFirst({
+    columns: { id: true },
+    where: eq(CouponTable.code, code),
+  });
+
+  return coupon != null && coupon.id !== exceptId;
+}
+
+export async function isCouponUsed(id: string) {
+  const purchase = await db.query.PurchaseTable.findFirst({
+    columns: { id: true },
+    where: eq(PurchaseTable.couponId, id),
+  });
+
+  return purchase != null;
+}
+
+// Refunded purchases give their redemption back.
+export async function getCouponRedemptionCount(
+  couponId: string,
+  userId?: string,
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const [result] = await trx
+    .select({ count: count() })
+    .from(PurchaseTable)
+    .where(
+      and(
+        eq(PurchaseTable.couponId, couponId),
+        isNull(PurchaseTable.refundedAt),
+        userId == null ? undefined : eq(PurchaseTable.userId, userId)
+      )
+    );
+
+  return result?.count ?? 0;
+}
+
+// Looks up a coupon for a checkout and checks every limit on it. Nothing is
+// cached since redemption counts change with each purchase.
+export async function getRedeemableCoupon({
+  code,
+  productId,
+  userId,
+  priceInCents,
+  currency,
+}: {
+  code: string;
+  productId: string;
+  userId: string;
+  priceInCents: number;
+  currency: Currency;
+}) {
+  const coupon = await db.query.CouponTable.findFirst({
+    where: eq(CouponTable.code, code.trim().toUpperCase()),
+  });
+
+  if (coupon == null) {
+    return { error: true, message: "This coupon does not exist" } as const;
+  }
+
+  const now = new Date();
+  if (
+    (coupon.startsAt != null && coupon.startsAt > now) ||
+    (coupon.endsAt != null && coupon.endsAt <= now)
+  ) {
+    return { error: true, message: "This coupon is not active" } as const;
+  }
+
+  if (coupon.productId != null && coupon.productId !== productId) {
+    return {
+      error: true,
+      message: "This coupon cannot be used for this product",
+    } as const;
+  }
+
+  if (coupon.discountType === "fixed" && coupon.currency !== currency) {
+    return {
+      error: true,
+      message: `This coupon cannot be used when paying in ${currency.toUpperCase()}`,
+    } as const;
+  }
+
+  const limitError = await getCouponLimitError(coupon, userId);
+  if (limitError != null) {
+    return { error: true, message: limitError } as const;
+  }
+
+  return {
+    error: false,
+    coupon: { id: coupon.id, code: coupon.code },
+    discountInCents: getCouponDiscountInCents(coupon, priceInCents),
+  } as const;
+}
+
+// Checks the redemption limits again while a purchase using the coupon is
+// recorded, since it can run out between checkout and payment. The coupon
+// stays locked until the transaction ends, so purchases are counted one at a
+// time.
+export async function canRedeemCouponDB(
+  { couponId, userId }: { couponId: string; userId: string },
+  trx: Omit<typeof db, "$client">
+) {
+  const [coupon] = await trx
+    .select({
+      id: CouponTable.id,
+      maxRedemptions: CouponTable.maxRedemptions,
+      maxRedemptionsPerUser: CouponTable.maxRedemptionsPerUser,
+    })
+    .from(CouponTable)
+    .where(eq(CouponTable.id, couponId))
+    .for("update");
+
+  if (coupon == null) return false;
+
+  return (await getCouponLimitError(coupon, userId, trx)) == null;
+}
+
+async function getCouponLimitError(
+  {
+    id,
+    maxRedemptions,
+    maxRedemptionsPerUser,
+  }: {
+    id: string;
+    maxRedemptions: number | null;
+    maxRedemptionsPerUser: number | null;
+  },
+  userId: string,
+  trx: Omit<typeof db, "$client"> = db
+) {
+  if (
+    maxRedemptions != null &&
+    (await getCouponRedemptionCount(id, undefined, trx)) >= maxRedemptions
+  ) {
+    return "This coupon has reached its redemption limit";
+  }
+
+  if (
+    maxRedemptionsPerUser != null &&
+    (await getCouponRedemptionCount(id, userId, trx)) >= maxRedemptionsPerUser
+  ) {
+    return "You have already used this coupon";
+  }
+
+  return null;
+}
@@ -0,0 +1,18 @@
+import { CouponDiscountType } from "@/drizzle/schema";
+
+// Discounts never exceed the price, so a coupon can at most make a product
+// free.
+export function getCouponDiscountInCents(
+  {
+    discountType,
+    discountValue,
+  }: { discountType: CouponDiscountType; discountValue: number },
+  priceInCents: number
+) {
+  const discountInCents =
+    discountType === "percentage"
+      ? Math.round((priceInCents * discountValue) / 100)
+      : discountValue;
+
+  return Math.min(discountInCents, priceInCents);
+}
@@ -0,0 +1,49 @@
+import { couponDiscountTypes, currencies } from "@/drizzle/schema";
+import { z } from "zod";
+
+export const couponCodeSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Code is required." })
+  .regex(/^[a-zA-Z0-9_-]+$/, {
+    message: "Code can only contain letters, numbers, dashes and underscores.",
+  })
+  .transform((code) => code.toUpperCase());
+
+export const couponSchema = z
+  .object({
+    code: couponCodeSchema,
+    discountType: z.enum(couponDiscountTypes),
+    // A whole percentage, or an amount in the coupon's currency for fixed
+    // discounts.
+    discountValue: z.number().positive(),
+    currency: z.enum(currencies).nullable(),
+    // Left empty for coupons that apply to every product.
+    productId: z.string().nullable(),
+    maxRedemptions: z.number().int().positive().nullable(),
+    maxRedemptionsPerUser: z.number().int().positive().nullable(),
+    startsAt: z.date().nullable(),
+    endsAt: z.date().nullable(),
+  })
+  .refine(
+    (coupon) =>
+      coupon.discountType !== "percentage" ||
+      (Number.isInteger(coupon.discountValue) && coupon.discountValue <= 100),
+    {
+      message: "Percentage discounts must be a whole number up to 100%.",
+      path: ["discountValue"],
+    }
+  )
+  .refine(
+    (coupon) => coupon.discountType !== "fixed" || coupon.currency != null,
+    { message: "Fixed discounts need a currency.", path: ["currency"] }
+  )
+  .refine(
+    (coupon) =>
+      coupon.startsAt == null ||
+      coupon.endsAt == null ||
+      coupon.startsAt < coupon.endsAt,
+    { message: "End date must be after the start date.", path: ["endsAt"] }
+  );
+
+export type CouponSchemaType = z.infer<typeof couponSchema>;
@@ -2,18 +2,16 @@
 
 import { getCurrentUser } from "@/services/clerk";
 
+import { can } from "@/permissions/policy";
 import {
-  canCreateSection,
-  canDeleteSection,
-  canUpdateSection,
-} from "../permissions/sections";
-import {
+  deleteSectionDB,
   getNextCourseSectionOrder,
+  getSectionCourseId,
   insertSection,
   updateSectionDB,
+  updateSectionOrdersDB,
 } from "../db/sections";
 import { sectionSchema, SectionSchemaType } from "../schemas/sections";
-import { deleteCourseDB } from "@/features/courses/db/courses";
 
 export async function createSection(
   courseId: string,
@@ -21,7 +19,13 @@ export async function createSection(
 ) {
   const { success, data } = sectionSchema.safeParse(unsafeData);
 
-  if (!success || !canCreateSection(await getCurrentUser())) {
+  if (
+    !success ||
+    !(await can(await getCurrentUser(), "create", {
+      type: "courseSection",
+      courseId,
+    }))
+  ) {
     return { error: true, message: "There was an error creating your section" };
   }
 
@@ -34,28 +38,72 @@ export async function createSection(
 
 export async function updateSection(id: string, unsafeData: SectionSchemaType) {
   const { success, data } = sectionSchema.safeParse(unsafeData);
+  const courseId = await getSectionCourseId(id);
 
-  if (!success || !canUpdateSection(await getCurrentUser())) {
+  if (
+    !success ||
+    courseId == null ||
+    !(await can(await getCurrentUser(), "update", {
+      type: "courseSection",
+      courseId,
+    }))
+  ) {
     return {
       error: true,
-      message: "There was an error updating your course",
+      message: "There was an error updating your section",
     };
   }
 
-  const course = await updateSectionDB(id, data);
+  await updateSectionDB(id, data);
+
+  return { error: false, message: "Successfully updated your section" };
 }
 
 export async function deleteSection(id: string) {
-  if (!canDeleteSection(await getCurrentUser())) {
+  const courseId = await getSectionCourseId(id);
+
+  if (
+    courseId == null ||
+    !(await can(await getCurrentUser(), "delete", {
+      type: "courseSection",
+      courseId,
+    }))
+  ) {
     return {
       error: true,
-      message: "You do not have permission to delete this course",
+      message: "You do not have permission to delete this section",
     };
   }
 
-  await deleteCourseDB(id);
+  await deleteSectionDB(id);
   return {
     error: false,
-    message: "Course deleted successfully",
+    message: "Section deleted successfully",
   };
 }
+
+export async function updateSectionOrders(
+  courseId: string,
+  sectionIds: string[]
+) {
+  if (
+    sectionIds.length === 0 ||
+    !(await can(await getCurrentUser(), "update", {
+      type: "courseSection",
+      courseId,
+    }))
+  ) {
+    return { error: true, message: "Error reordering your sections" };
+  }
+
+  const updatedSections = await updateSectionOrdersDB(courseId, sectionIds);
+
+  if (updatedSections == null) {
+    return {
+      error: true,
+      message: "Sections are out of date, please refresh and try again",
+    };
+  }
+
+  return { error: false, message: "Successfully reordered your sections" };
+}
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -13,6 +14,8 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import RequiredLabelIcon from "@/components/RequiredLabelIcon";
+import { DateTimeInput } from "@/components/DateTimeInput";
+import { NullableNumberInput } from "@/components/NullableNumberInput";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { CourseSectionStatus, courseSectionStatuses } from "@/drizzle/schema";
@@ -35,6 +38,8 @@ const SectionForm = ({
     id: string;
     name: string;
     status: CourseSectionStatus;
+    publishAt: Date | null;
+    dripDays: number | null;
   };
   courseId: string;
   onSuccess?: () => void;
@@ -44,6 +49,8 @@ const SectionForm = ({
     defaultValues: section ?? {
       name: "",
       status: "public",
+      publishAt: null,
+      dripDays: null,
     },
   });
 
@@ -108,6 +115,41 @@ const SectionForm = ({
               </FormItem>
             )}
           />
+          <FormField
+            control={form.control}
+            name="publishAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Publish At</FormLabel>
+                <FormControl>
+                  <DateTimeInput
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Makes the section public at this time
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="dripDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Unlock After (Days)</FormLabel>
+                <FormControl>
+                  <NullableNumberInput placeholder="Immediately" {...field} />
+                </FormControl>
+                <FormDescription>
+                  Counted from when a learner gets access to the course
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
 
         <div className="self-end">
@@ -16,7 +16,13 @@ export function SectionFormDialog({
   children,
 }: {
   courseId: string;
-  section?: { id: string; name: string; status: CourseSectionStatus };
+  section?: {
+    id: string;
+    name: string;
+    status: CourseSectionStatus;
+    publishAt: Date | null;
+    dripDays: number | null;
+  };
   children: ReactNode;
 }) {
   const [isOpen, setIsOpen] = useState(false);
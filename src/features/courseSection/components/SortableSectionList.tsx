@@ -0,0 +1,76 @@
+"use client";
+
+import { ActionButton } from "@/components/ActionButton";
+import { SortableItem, SortableList } from "@/components/SortableList";
+import { Button } from "@/components/ui/button";
+import { DialogTrigger } from "@/components/ui/dialog";
+import { CourseSectionStatus } from "@/drizzle/schema";
+import { cn } from "@/lib/utils";
+import { EyeClosed, Trash2Icon } from "lucide-react";
+import { PublishAtBadge } from "@/components/PublishAtBadge";
+import { DripDaysBadge } from "@/components/DripDaysBadge";
+import { deleteSection, updateSectionOrders } from "../actions/sections";
+import { SectionFormDialog } from "./SectionFormDialog";
+
+export function SortableSectionList({
+  courseId,
+  sections,
+}: {
+  courseId: string;
+  sections: {
+    id: string;
+    name: string;
+    status: CourseSectionStatus;
+    publishAt: Date | null;
+    dripDays: number | null;
+  }[];
+}) {
+  return (
+    <SortableList
+      items={sections}
+      onOrderChange={updateSectionOrders.bind(null, courseId)}
+    >
+      {(items) =>
+        items.map((section) => (
+          <SortableItem
+            key={section.id}
+            id={section.id}
+            className="flex items-center gap-1"
+          >
+            <div
+              className={cn(
+                "contents",
+                section.status === "private" && "text-muted-foreground"
+              )}
+            >
+              {section.status === "private" && <EyeClosed className="size-4" />}
+              {section.name}
+            </div>
+            {section.status === "private" && section.publishAt != null && (
+              <PublishAtBadge publishAt={section.publishAt} />
+            )}
+            {section.dripDays != null && (
+              <DripDaysBadge dripDays={section.dripDays} />
+            )}
+            <SectionFormDialog section={section} courseId={courseId}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="ml-auto">
+                  Edit
+                </Button>
+              </DialogTrigger>
+            </SectionFormDialog>
+            <ActionButton
+              action={deleteSection.bind(null, section.id)}
+              requireAreYouSure
+              variant="destructive"
+              size="sm"
+            >
+              <Trash2Icon />
+              <span className="sr-only">Delete</span>
+            </ActionButton>
+          </SortableItem>
+        ))
+      }
+    </SortableList>
+  );
+}
@@ -1,18 +1,29 @@
 import { db } from "@/drizzle/db";
-import { CourseSectionTable } from "@/drizzle/schema";
+import { CourseSectionTable, LessonTable } from "@/drizzle/schema";
+import { revalidateLessonCache } from "@/features/lessons/db/cache/lesson";
 import { revalidateCourseSectionCache } from "./cache";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 
 export async function getNextCourseSectionOrder(courseId: string) {
   const section = await db.query.CourseSectionTable.findFirst({
     columns: { order: true },
-    where: ({ courseId: courseIdCol }, { eq }) => eq(courseIdCol, courseId),
+    where: ({ courseId: courseIdCol, deletedAt }, { and, eq, isNull }) =>
+      and(eq(courseIdCol, courseId), isNull(deletedAt)),
     orderBy: ({ order }, { desc }) => desc(order),
   });
 
   return section ? section.order + 1 : 0;
 }
 
+export async function getSectionCourseId(id: string) {
+  const section = await db.query.CourseSectionTable.findFirst({
+    columns: { courseId: true },
+    where: eq(CourseSectionTable.id, id),
+  });
+
+  return section?.courseId;
+}
+
 export async function insertSection(
   data: typeof CourseSectionTable.$inferInsert
 ) {
@@ -38,7 +49,9 @@ export async function updateSectionDB(
   const [updatedSection] = await db
     .update(CourseSectionTable)
     .set(data)
-    .where(eq(CourseSectionTable.id, id))
+    .where(
+      and(eq(CourseSectionTable.id, id), isNull(CourseSectionTable.deletedAt))
+    )
     .returning();
 
   if (!updatedSection) throw new Error("Failed to update section");
@@ -51,18 +64,96 @@ export async function updateSectionDB(
   return updatedSection;
 }
 
+// Sections and their lessons are only marked as deleted, so the published
+// revision keeps working and learners keep their progress. They are gone from
+// learners once a revision without them is published.
 export async function deleteSectionDB(id: string) {
-  const [deletedSection] = await db
-    .delete(CourseSectionTable)
-    .where(eq(CourseSectionTable.id, id))
-    .returning();
+  const result = await db.transaction(async (trx) => {
+    const deletedAt = new Date();
+    const [deletedSection] = await trx
+      .update(CourseSectionTable)
+      .set({ deletedAt })
+      .where(
+        and(eq(CourseSectionTable.id, id), isNull(CourseSectionTable.deletedAt))
+      )
+      .returning();
 
-  if (!deletedSection) throw new Error("Failed to delete section");
+    if (!deletedSection) return null;
 
+    const deletedLessons = await trx
+      .update(LessonTable)
+      .set({ deletedAt })
+      .where(and(eq(LessonTable.sectionId, id), isNull(LessonTable.deletedAt)))
+      .returning({ id: LessonTable.id });
+
+    return { deletedSection, deletedLessons };
+  });
+
+  if (!result) throw new Error("Failed to delete section");
+
+  const { deletedSection, deletedLessons } = result;
   revalidateCourseSectionCache({
     courseId: deletedSection.courseId,
     id: deletedSection.id,
   });
+  deletedLessons.forEach(({ id }) =>
+    revalidateLessonCache({ courseId: deletedSection.courseId, id })
+  );
 
   return deletedSection;
 }
+
+export async function updateSectionOrdersDB(
+  courseId: string,
+  sectionIds: string[]
+) {
+  const updatedSections = await db.transaction(async (trx) => {
+    const sections = await trx.query.CourseSectionTable.findMany({
+      columns: { id: true },
+      where: and(
+        eq(CourseSectionTable.courseId, courseId),
+        isNull(CourseSectionTable.deletedAt)
+      ),
+    });
+
+    // The new order has to cover every section of the course exactly once,
+    // otherwise we would end up with duplicate or gapped orders.
+    const courseSectionIds = new Set(sections.map((section) => section.id));
+    if (
+      new Set(sectionIds).size !== sectionIds.length ||
+      sectionIds.length !== courseSectionIds.size ||
+      sectionIds.some((id) => !courseSectionIds.has(id))
+    ) {
+      return null;
+    }
+
+    const updatedSections = [];
+    for (const [order, id] of sectionIds.entries()) {
+      const [updatedSection] = await trx
+        .update(CourseSectionTable)
+        .set({ order })
+        .where(
+          and(
+            eq(CourseSectionTable.id, id),
+            eq(CourseSectionTable.courseId, courseId),
+            isNull(CourseSectionTable.deletedAt)
+          )
+        )
+        .returning();
+
+      if (!updatedSection) return trx.rollback();
+      updatedSections.push(updatedSection);
+    }
+
+    return updatedSections;
+  });
+
+  updatedSections?.forEach((section) => {
+    revalidateCourseSectionCache({
+      courseId: section.courseId,
+      id: section.id,
+    });
+  });
+
+  return updatedSections;
+}
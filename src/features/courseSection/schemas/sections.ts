@@ -1,11 +1,21 @@
 import { courseSectionStatuses } from "@/drizzle/schema";
 import { z } from "zod";
 
-export const sectionSchema = z.object({
-  name: z.string().min(1, {
-    message: "Name is required.",
-  }),
-  status: z.enum(courseSectionStatuses),
-});
+export const sectionSchema = z
+  .object({
+    name: z.string().min(1, {
+      message: "Name is required.",
+    }),
+    status: z.enum(courseSectionStatuses),
+    publishAt: z.date().nullable(),
+    dripDays: z.number().int().positive().nullable(),
+  })
+  .refine(
+    (section) => section.publishAt == null || section.status === "private",
+    {
+      message: "Only private sections can be scheduled.",
+      path: ["publishAt"],
+    }
+  );
 
 export type SectionSchemaType = z.infer<typeof sectionSchema>;
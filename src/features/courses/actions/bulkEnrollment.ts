@@ -0,0 +1,284 @@
+"use server";
+
+import { db } from "@/drizzle/db";
+import {
+  CourseTable,
+  ProductTable,
+  UserCourseAccessTable,
+  UserTable,
+} from "@/drizzle/schema";
+import { parseCsv } from "@/lib/csv";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { and, inArray, isNull, sql } from "drizzle-orm";
+import {
+  getPendingEnrollmentInvitations,
+  insertEnrollmentInvitations,
+} from "../db/enrollmentInvitations";
+import { addUserCourseAccess } from "../db/userCourseAccess";
+import {
+  BULK_ENROLLMENT_MAX_ROWS,
+  bulkEnrollmentRowSchema,
+  bulkEnrollmentSchema,
+  BulkEnrollmentSchemaType,
+} from "../schemas/bulkEnrollment";
+
+export type BulkEnrollmentResult = {
+  row: number;
+  email: string;
+  status: "enrolled" | "invited" | "skipped" | "error";
+  message: string;
+};
+
+export async function bulkEnroll(unsafeData: BulkEnrollmentSchemaType) {
+  const { success, data } = bulkEnrollmentSchema.safeParse(unsafeData);
+  const user = await getCurrentUser();
+
+  if (!success || !(await can(user, "list", "user"))) {
+    return {
+      error: true,
+      message: "There was an error processing your enrollments",
+      results: [],
+    };
+  }
+
+  const [header = [], ...rows] = parseCsv(data.csv);
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const emailIndex = columns.indexOf("email");
+  const courseIdIndex = columns.indexOf("courseid");
+  const productIdIndex = columns.indexOf("productid");
+
+  if (emailIndex === -1 || (courseIdIndex === -1 && productIdIndex === -1)) {
+    return {
+      error: true,
+      message:
+        "The CSV header must have an email column and a courseId or productId column",
+      results: [],
+    };
+  }
+
+  if (rows.length === 0 || rows.length > BULK_ENROLLMENT_MAX_ROWS) {
+    return {
+      error: true,
+      message: `The CSV must have between 1 and ${BULK_ENROLLMENT_MAX_ROWS} rows`,
+      results: [],
+    };
+  }
+
+  const parsedRows = rows.map((row) =>
+    bulkEnrollmentRowSchema.safeParse({
+      email: getCell(row, emailIndex),
+      courseId: getCell(row, courseIdIndex),
+      productId: getCell(row, productIdIndex),
+    })
+  );
+  const validRows = parsedRows.flatMap((row) =>
+    row.success ? [row.data] : []
+  );
+
+  const { courseIdsByProduct, existingCourseIds } = await getRowCourses(
+    validRows.flatMap(({ productId }) => (productId ? [productId] : [])),
+    validRows.flatMap(({ courseId }) => (courseId ? [courseId] : []))
+  );
+  const allowedCourseIds = await getAllowedCourseIds(user, [
+    ...existingCourseIds,
+    ...[...courseIdsByProduct.values()].flat(),
+  ]);
+
+  const emails = [...new Set(validRows.map(({ email }) => email))];
+  const [userIdsByEmail, pendingInvitations] = await Promise.all([
+    getUserIdsByEmail(emails),
+    getPendingEnrollmentInvitations(emails),
+  ]);
+  const existingAccess = await getExistingAccess([...userIdsByEmail.values()]);
+
+  // Keys are added as rows are processed so duplicates within the file are
+  // skipped just like enrollments that already exist.
+  const enrolledKeys = new Set([
+    ...existingAccess.map(({ userId, courseId }) => `${userId}:${courseId}`),
+    ...pendingInvitations.map(({ email, courseId }) => `${email}:${courseId}`),
+  ]);
+  const accessesToAdd: { userId: string; courseId: string }[] = [];
+  const invitationsToAdd: { email: string; courseId: string }[] = [];
+
+  const results = parsedRows.map((parsedRow, i): BulkEnrollmentResult => {
+    const row = i + 1;
+    const rawEmail = getCell(rows[i] ?? [], emailIndex) ?? "";
+
+    if (!parsedRow.success) {
+      return {
+        row,
+        email: rawEmail,
+        status: "error",
+        message: parsedRow.error.issues[0]?.message ?? "Invalid row",
+      };
+    }
+
+    const { email, courseId, productId } = parsedRow.data;
+    const courseIds =
+      productId != null
+        ? courseIdsByProduct.get(productId)
+        : courseId != null && existingCourseIds.has(courseId)
+          ? [courseId]
+          : undefined;
+
+    if (courseIds == null || courseIds.length === 0) {
+      return {
+        row,
+        email,
+        status: "error",
+        message: productId != null ? "Product not found" : "Course not found",
+      };
+    }
+
+    if (courseIds.some((courseId) => !allowedCourseIds.has(courseId))) {
+      return {
+        row,
+        email,
+        status: "error",
+        message: "You do not have permission to enroll users in this course",
+      };
+    }
+
+    const userId = userIdsByEmail.get(email);
+    const key = userId ?? email;
+    const newCourseIds = courseIds.filter(
+      (courseId) => !enrolledKeys.has(`${key}:${courseId}`)
+    );
+
+    if (newCourseIds.length === 0) {
+      return {
+        row,
+        email,
+        status: "skipped",
+        message:
+          userId != null ? "Already has access" : "Already has an invitation",
+      };
+    }
+
+    newCourseIds.forEach((courseId) => {
+      enrolledKeys.add(`${key}:${courseId}`);
+      if (userId != null) {
+        accessesToAdd.push({ userId, courseId });
+      } else {
+        invitationsToAdd.push({ email, courseId });
+      }
+    });
+
+    return userId != null
+      ? {
+          row,
+          email,
+          status: "enrolled",
+          message: `Granted access to ${newCourseIds.length} course(s)`,
+        }
+      : {
+          row,
+          email,
+          status: "invited",
+          message: `Invited to ${newCourseIds.length} course(s)`,
+        };
+  });
+
+  if (!data.dryRun) {
+    await db.transaction(async (trx) => {
+      const courseIdsByUser = new Map<string, string[]>();
+      accessesToAdd.forEach(({ userId, courseId }) => {
+        courseIdsByUser.set(userId, [
+          ...(courseIdsByUser.get(userId) ?? []),
+          courseId,
+        ]);
+      });
+
+      for (const [userId, courseIds] of courseIdsByUser) {
+        await addUserCourseAccess(
+          { userId, courseIds, manuallyGranted: true },
+          trx
+        );
+      }
+      await insertEnrollmentInvitations(invitationsToAdd, trx);
+    });
+  }
+
+  return {
+    error: false,
+    message: data.dryRun
+      ? "Dry run complete, no changes were made"
+      : "Successfully processed enrollments",
+    results,
+  };
+}
+
+function getCell(row: string[], index: number) {
+  const value = index === -1 ? undefined : row[index]?.trim();
+  return value ? value : undefined;
+}
+
+async function getRowCourses(productIds: string[], courseIds: string[]) {
+  const [products, courses] = await Promise.all([
+    productIds.length === 0
+      ? []
+      : db.query.ProductTable.findMany({
+          columns: { id: true },
+          where: inArray(ProductTable.id, productIds),
+          with: { courseProducts: { columns: { courseId: true } } },
+        }),
+    courseIds.length === 0
+      ? []
+      : db.query.CourseTable.findMany({
+          columns: { id: true },
+          where: inArray(CourseTable.id, courseIds),
+        }),
+  ]);
+
+  return {
+    courseIdsByProduct: new Map(
+      products.map((product) => [
+        product.id,
+        product.courseProducts.map(({ courseId }) => courseId),
+      ])
+    ),
+    existingCourseIds: new Set(courses.map(({ id }) => id)),
+  };
+}
+
+async function getAllowedCourseIds(
+  user: Awaited<ReturnType<typeof getCurrentUser>>,
+  courseIds: string[]
+) {
+  const uniqueCourseIds = [...new Set(courseIds)];
+  const allowed = await Promise.all(
+    uniqueCourseIds.map((courseId) =>
+      can(user, "create", { type: "userCourseAccess", courseId })
+    )
+  );
+
+  return new Set(uniqueCourseIds.filter((_, i) => allowed[i]));
+}
+
+async function getUserIdsByEmail(emails: string[]) {
+  if (emails.length === 0) return new Map<string, string>();
+
+  const users = await db.query.UserTable.findMany({
+    columns: { id: true, email: true },
+    where: and(
+      inArray(sql`lower(${UserTable.email})`, emails),
+      isNull(UserTable.deletedAt)
+    ),
+  });
+
+  return new Map(users.map(({ id, email }) => [email.toLowerCase(), id]));
+}
+
+// Time-limited access is not included since enrolling makes it permanent.
+async function getExistingAccess(userIds: string[]) {
+  if (userIds.length === 0) return [];
+
+  return db.query.UserCourseAccessTable.findMany({
+    columns: { userId: true, courseId: true },
+    where: and(
+      inArray(UserCourseAccessTable.userId, userIds),
+      isNull(UserCourseAccessTable.expiresAt)
+    ),
+  });
+}
@@ -3,31 +3,39 @@
 import { redirect } from "next/navigation";
 import { courseSchema, CourseSchemaType } from "../schemas/courses";
 import { getCurrentUser } from "@/services/clerk";
+import { can } from "@/permissions/policy";
+import { formatPlural } from "@/lib/formatter";
 import {
-  canCreateCourse,
-  canDeleteCourse,
-  canUpdateCourse,
-} from "../permissions/courses";
-import { insertCourse, deleteCourseDB, updateCourseDB } from "../db/courses";
+  insertCourse,
+  deleteCourseDB,
+  getCourseDeleteBlockers,
+  updateCourseDB,
+} from "../db/courses";
 
 export async function createCourse(unsafeData: CourseSchemaType) {
   const { success, data } = courseSchema.safeParse(unsafeData);
+  const user = await getCurrentUser();
 
-  if (!success || !canCreateCourse(await getCurrentUser())) {
+  if (!success || !(await can(user, "create", "course"))) {
     return {
       error: true,
       message: "There was an error creating your course",
     };
   }
 
-  const course = await insertCourse(data);
+  const course = await insertCourse(data, {
+    instructorId: user.role === "instructor" ? user.userId : undefined,
+  });
   redirect(`/admin/courses/${course.id}/edit`);
 }
 
 export async function updateCourse(id: string, unsafeData: CourseSchemaType) {
   const { success, data } = courseSchema.safeParse(unsafeData);
 
-  if (!success || !canUpdateCourse(await getCurrentUser())) {
+  if (
+    !success ||
+    !(await can(await getCurrentUser(), "update", { type: "course", id }))
+  ) {
     return {
       error: true,
       message: "There was an error updating your course",
@@ -38,16 +46,57 @@ export async function updateCourse(id: string, unsafeData: CourseSchemaType) {
 }
 
 export async function deleteCourse(id: string) {
-  if (!canDeleteCourse(await getCurrentUser())) {
+  if (!(await can(await getCurrentUser(), "delete", { type: "course", id }))) {
     return {
       error: true,
       message: "You do not have permission to delete this course",
     };
   }
 
+  const { productNames, learnersCount } = await getCourseDeleteBlockers(id);
+  const blockers = [
+    productNames.length > 0 && `it is included in ${productNames.join(", ")}`,
+    learnersCount > 0 &&
+      `${formatPlural(learnersCount, {
+        singular: "learner has",
+        plural: "learners have",
+      })} access to it`,
+  ].filter((blocker) => blocker !== false);
+
+  if (blockers.length > 0) {
+    return {
+      error: true,
+      message: `This course cannot be deleted because ${blockers.join(" and ")}. Archive it instead.`,
+    };
+  }
+
   await deleteCourseDB(id);
   return {
     error: false,
     message: "Course deleted successfully",
   };
 }
+
+export async function archiveCourse(id: string) {
+  if (!(await can(await getCurrentUser(), "update", { type: "course", id }))) {
+    return {
+      error: true,
+      message: "You do not have permission to archive this course",
+    };
+  }
+
+  await updateCourseDB(id, { archivedAt: new Date() });
+  return { error: false, message: "Course archived successfully" };
+}
+
+export async function unarchiveCourse(id: string) {
+  if (!(await can(await getCurrentUser(), "update", { type: "course", id }))) {
+    return {
+      error: true,
+      message: "You do not have permission to unarchive this course",
+    };
+  }
+
+  await updateCourseDB(id, { archivedAt: null });
+  return { error: false, message: "Course unarchived successfully" };
+}
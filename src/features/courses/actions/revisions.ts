@@ -0,0 +1,76 @@
+"use server";
+
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import {
+  getCourseDraftContent,
+  getPublishedCourseContent,
+  publishCourseDB,
+  rollbackCourseDB,
+} from "../db/revisions";
+import { diffCourseContent } from "../lib/revisions";
+
+export async function publishCourse(courseId: string) {
+  const user = await getCurrentUser();
+
+  if (!(await can(user, "update", { type: "course", id: courseId }))) {
+    return {
+      error: true,
+      message: "You do not have permission to publish this course",
+    };
+  }
+
+  const [draft, published] = await Promise.all([
+    getCourseDraftContent(courseId),
+    getPublishedCourseContent(courseId),
+  ]);
+
+  if (draft == null) {
+    return {
+      error: true,
+      message: "There was an error publishing your course",
+    };
+  }
+
+  if (published != null && diffCourseContent(published, draft).length === 0) {
+    return { error: true, message: "There are no changes to publish" };
+  }
+
+  const revision = await publishCourseDB({
+    courseId,
+    authorId: user.userId ?? null,
+  });
+  return {
+    error: false,
+    message: `Published revision #${revision.number} successfully`,
+  };
+}
+
+export async function rollbackCourse(courseId: string, revisionId: string) {
+  const user = await getCurrentUser();
+
+  if (!(await can(user, "update", { type: "course", id: courseId }))) {
+    return {
+      error: true,
+      message: "You do not have permission to roll back this course",
+    };
+  }
+
+  const revision = await rollbackCourseDB({
+    courseId,
+    revisionId,
+    authorId: user.userId ?? null,
+  });
+
+  if (revision == null) {
+    return {
+      error: true,
+      message: "There was an error rolling back your course",
+    };
+  }
+
+  return {
+    error: false,
+    message: `Rolled back and published revision #${revision.number} successfully`,
+  };
+}
@@ -0,0 +1,66 @@
+"use server";
+
+import { isActiveUser } from "@/features/users/db/users";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import {
+  addUserCourseAccess,
+  removeUserCourseAccess,
+} from "../db/userCourseAccess";
+import {
+  userCourseAccessSchema,
+  UserCourseAccessSchemaType,
+} from "../schemas/userCourseAccess";
+
+export async function grantCourseAccess(
+  userId: string,
+  unsafeData: UserCourseAccessSchemaType
+) {
+  const { success, data } = userCourseAccessSchema.safeParse(unsafeData);
+
+  if (
+    !success ||
+    !(await can(await getCurrentUser(), "create", {
+      type: "userCourseAccess",
+      courseId: data.courseId,
+    }))
+  ) {
+    return { error: true, message: "There was an error granting access" };
+  }
+
+  if (!(await isActiveUser(userId))) {
+    return { error: true, message: "This user no longer exists" };
+  }
+
+  const [access] = await addUserCourseAccess({
+    userId,
+    courseIds: [data.courseId],
+    manuallyGranted: true,
+  });
+
+  if (access == null) {
+    return { error: true, message: "User already has access to this course" };
+  }
+
+  return { error: false, message: "Successfully granted course access" };
+}
+
+export async function removeCourseAccess(userId: string, courseId: string) {
+  if (
+    !(await can(await getCurrentUser(), "delete", {
+      type: "userCourseAccess",
+      courseId,
+    }))
+  ) {
+    return {
+      error: true,
+      message: "You do not have permission to remove this access",
+    };
+  }
+
+  if ((await removeUserCourseAccess({ userId, courseId })) == null) {
+    return { error: true, message: "This access was already removed" };
+  }
+
+  return { error: false, message: "Successfully removed course access" };
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import RequiredLabelIcon from "@/components/RequiredLabelIcon";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { bulkEnroll, BulkEnrollmentResult } from "../actions/bulkEnrollment";
+import {
+  bulkEnrollmentSchema,
+  BulkEnrollmentSchemaType,
+} from "../schemas/bulkEnrollment";
+
+const BulkEnrollmentForm = () => {
+  const [results, setResults] = useState<BulkEnrollmentResult[]>([]);
+  const form = useForm<BulkEnrollmentSchemaType>({
+    resolver: zodResolver(bulkEnrollmentSchema),
+    defaultValues: { csv: "", dryRun: true },
+  });
+
+  async function onSubmit(values: BulkEnrollmentSchemaType) {
+    const data = await bulkEnroll(values);
+    setResults(data.results);
+
+    if (data.error) {
+      toast.error(data.message);
+    } else {
+      toast.success(data.message);
+    }
+  }
+
+  async function loadFile(file: File | undefined) {
+    if (file == null) return;
+    form.setValue("csv", await file.text(), { shouldValidate: true });
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(onSubmit)}
+          className="flex gap-6 flex-col"
+        >
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="csvFile">Upload CSV</Label>
+            <Input
+              id="csvFile"
+              type="file"
+              accept=".csv,text/csv"
+              className="w-fit"
+              onChange={(e) => loadFile(e.target.files?.[0])}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="csv"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  CSV
+                  <RequiredLabelIcon />
+                </FormLabel>
+                <FormControl>
+                  <Textarea
+                    className="min-h-40 font-mono"
+                    placeholder={
+                      "email,courseId,productId\nstudent@example.com,<course id>,"
+                    }
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="dryRun"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked === true)
+                    }
+                  />
+                </FormControl>
+                <FormLabel>Dry run (validate without making changes)</FormLabel>
+              </FormItem>
+            )}
+          />
+          <div className="self-end">
+            <Button disabled={form.formState.isSubmitting} type="submit">
+              {form.watch("dryRun") ? "Validate" : "Enroll"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+
+      {results.length > 0 && <BulkEnrollmentResults results={results} />}
+    </div>
+  );
+};
+
+export default BulkEnrollmentForm;
+
+function BulkEnrollmentResults({
+  results,
+}: {
+  results: BulkEnrollmentResult[];
+}) {
+  const getCount = (status: BulkEnrollmentResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-2 flex-wrap">
+        <Badge variant="outline">{getCount("enrolled")} enrolled</Badge>
+        <Badge variant="outline">{getCount("invited")} invited</Badge>
+        <Badge variant="outline">{getCount("skipped")} skipped</Badge>
+        <Badge variant="destructive">{getCount("error")} errors</Badge>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Row</TableHead>
+            <TableHead>Email</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Details</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.map((result) => (
+            <TableRow key={result.row}>
+              <TableCell>{result.row}</TableCell>
+              <TableCell>{result.email}</TableCell>
+              <TableCell>
+                <Badge
+                  variant={
+                    result.status === "error" ? "destructive" : "secondary"
+                  }
+                  className="capitalize"
+                >
+                  {result.status}
+                </Badge>
+              </TableCell>
+              <TableCell>{result.message}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatPlural } from "@/lib/formatter";
+import { CourseContentChange } from "../lib/revisions";
+
+const CourseRevisionDiff = ({
+  changes,
+}: {
+  changes: CourseContentChange[];
+}) => {
+  if (changes.length === 0) {
+    return <div className="text-muted-foreground">No changes</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>
+            {formatPlural(changes.length, {
+              singular: "change",
+              plural: "changes",
+            })}
+          </TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Details</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((change, i) => (
+          <TableRow key={i}>
+            <TableCell>
+              <div className="flex flex-col gap-1">
+                <div className="font-semibold">{getChangeTitle(change)}</div>
+                <div className="text-muted-foreground capitalize">
+                  {change.item}
+                </div>
+              </div>
+            </TableCell>
+            <TableCell>
+              <Badge
+                variant={change.type === "removed" ? "destructive" : "outline"}
+                className="capitalize"
+              >
+                {change.type}
+              </Badge>
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-col gap-1">
+                {change.details && <div>{change.details}</div>}
+                {change.fields?.map(({ field, before, after }) => (
+                  <div key={field} className="whitespace-normal">
+                    <span className="font-semibold">{field}: </span>
+                    <span className="text-muted-foreground line-through">
+                      {before ?? "None"}
+                    </span>{" "}
+                    → {after ?? "None"}
+                  </div>
+                ))}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default CourseRevisionDiff;
+
+function getChangeTitle({ item, type, name }: CourseContentChange) {
+  if (type !== "reordered") return name;
+
+  return item === "section" ? `Sections of ${name}` : `Lessons of ${name}`;
+}
@@ -1,4 +1,5 @@
 import { ActionButton } from "@/components/ActionButton";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Table,
@@ -9,13 +10,18 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { formatPlural } from "@/lib/formatter";
-import { Trash2Icon } from "lucide-react";
+import { ArchiveIcon, ArchiveRestoreIcon, Trash2Icon } from "lucide-react";
 import Link from "next/link";
-import { deleteCourse } from "../actions/courses";
+import {
+  archiveCourse,
+  deleteCourse,
+  unarchiveCourse,
+} from "../actions/courses";
 
 type Course = {
   id: string;
   name: string;
+  archivedAt: Date | null;
   sectionsCount: number;
   lessonsCount: number;
   studentsCount: number;
@@ -41,7 +47,12 @@ const CourseTable = ({ courses }: { courses: Course[] }) => {
           <TableRow key={course.id}>
             <TableCell>
               <div className="flex flex-col gap-1">
-                <div className="font-semibold">{course.name}</div>
+                <div className="flex gap-2 items-center">
+                  <div className="font-semibold">{course.name}</div>
+                  {course.archivedAt != null && (
+                    <Badge variant="outline">Archived</Badge>
+                  )}
+                </div>
                 <div className="text-muted-foreground">
                   {formatPlural(course.sectionsCount, {
                     singular: "section",
@@ -61,6 +72,23 @@ const CourseTable = ({ courses }: { courses: Course[] }) => {
                 <Button asChild>
                   <Link href={`/admin/courses/${course.id}/edit`}>Edit</Link>
                 </Button>
+                {course.archivedAt == null ? (
+                  <ActionButton
+                    variant="outline"
+                    action={archiveCourse.bind(null, course.id)}
+                  >
+                    <ArchiveIcon />
+                    <span className="sr-only">Archive</span>
+                  </ActionButton>
+                ) : (
+                  <ActionButton
+                    variant="outline"
+                    action={unarchiveCourse.bind(null, course.id)}
+                  >
+                    <ArchiveRestoreIcon />
+                    <span className="sr-only">Unarchive</span>
+                  </ActionButton>
+                )}
                 <ActionButton
                   variant="destructive"
                   requireAreYouSure
@@ -0,0 +1,60 @@
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDate, formatPlural } from "@/lib/formatter";
+import Link from "next/link";
+
+const ExpiringAccessTable = ({
+  accesses,
+}: {
+  accesses: {
+    expiresAt: Date;
+    user: { id: string; name: string; email: string };
+    course: { id: string; title: string };
+  }[];
+}) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>
+            {formatPlural(accesses.length, {
+              singular: "enrollment",
+              plural: "enrollments",
+            })}
+          </TableHead>
+          <TableHead>Course</TableHead>
+          <TableHead>Expires</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {accesses.map(({ user, course, expiresAt }) => (
+          <TableRow key={`${user.id}-${course.id}`}>
+            <TableCell>
+              <div className="flex flex-col gap-1">
+                <div className="font-semibold">{user.name}</div>
+                <div className="text-muted-foreground">{user.email}</div>
+              </div>
+            </TableCell>
+            <TableCell>{course.title}</TableCell>
+            <TableCell>{formatDate(expiresAt)}</TableCell>
+            <TableCell>
+              <Button variant="outline" asChild>
+                <Link href={`/admin/users/${user.id}`}>View User</Link>
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ExpiringAccessTable;
@@ -0,0 +1,91 @@
+"use client";
+
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import {
+  userCourseAccessSchema,
+  UserCourseAccessSchemaType,
+} from "../schemas/userCourseAccess";
+import { grantCourseAccess } from "../actions/userCourseAccess";
+
+const GrantCourseAccessForm = ({
+  userId,
+  courses,
+}: {
+  userId: string;
+  courses: { id: string; name: string }[];
+}) => {
+  const form = useForm<UserCourseAccessSchemaType>({
+    resolver: zodResolver(userCourseAccessSchema),
+    defaultValues: { courseId: "" },
+  });
+
+  async function onSubmit(values: UserCourseAccessSchemaType) {
+    const data = await grantCourseAccess(userId, values);
+
+    if (data.error) {
+      toast.error(data.message);
+    } else {
+      toast.success(data.message);
+      form.reset();
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="flex gap-4 items-start"
+      >
+        <FormField
+          control={form.control}
+          name="courseId"
+          render={({ field }) => (
+            <FormItem>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Select a course" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {courses.map((course) => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {course.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button
+          disabled={form.formState.isSubmitting || courses.length === 0}
+          type="submit"
+        >
+          Grant Access
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default GrantCourseAccessForm;
@@ -0,0 +1,42 @@
+import {
+  getCourseTag,
+  getGlobalTag,
+  getIdTag,
+  getUserTag,
+  revalidateTag,
+} from "@/lib/dataCache";
+
+export function getCourseInstructorGlobalTag() {
+  return getGlobalTag("courseInstructors");
+}
+
+export function getCourseInstructorIdTag({
+  courseId,
+  userId,
+}: {
+  courseId: string;
+  userId: string;
+}) {
+  return getIdTag("courseInstructors", `course:${courseId}-user:${userId}`);
+}
+
+export function getCourseInstructorUserTag(userId: string) {
+  return getUserTag("courseInstructors", userId);
+}
+
+export function getCourseInstructorCourseTag(courseId: string) {
+  return getCourseTag("courseInstructors", courseId);
+}
+
+export function revalidateCourseInstructorCache({
+  courseId,
+  userId,
+}: {
+  courseId: string;
+  userId: string;
+}) {
+  revalidateTag(getCourseInstructorGlobalTag());
+  revalidateTag(getCourseInstructorIdTag({ courseId, userId }));
+  revalidateTag(getCourseInstructorUserTag(userId));
+  revalidateTag(getCourseInstructorCourseTag(courseId));
+}
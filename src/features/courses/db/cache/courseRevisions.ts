@@ -0,0 +1,30 @@
+import {
+  getCourseTag,
+  getGlobalTag,
+  getIdTag,
+  revalidateTag,
+} from "@/lib/dataCache";
+
+export function getCourseRevisionGlobalTag() {
+  return getGlobalTag("courseRevisions");
+}
+
+export function getCourseRevisionIdTag(id: string) {
+  return getIdTag("courseRevisions", id);
+}
+
+export function getCourseRevisionCourseTag(courseId: string) {
+  return getCourseTag("courseRevisions", courseId);
+}
+
+export function revalidateCourseRevisionCache({
+  id,
+  courseId,
+}: {
+  id: string;
+  courseId: string;
+}) {
+  revalidateTag(getCourseRevisionGlobalTag());
+  revalidateTag(getCourseRevisionIdTag(id));
+  revalidateTag(getCourseRevisionCourseTag(courseId));
+}
@@ -1,5 +1,4 @@
-import { revalidateTag } from "next/cache";
-import { getGlobalTag, getIdTag } from "@/lib/dataCache";
+import { getGlobalTag, getIdTag, revalidateTag } from "@/lib/dataCache";
 
 export function getCourseGlobalTag() {
   return getGlobalTag("courses");
@@ -1,5 +1,9 @@
-import { revalidateTag } from "next/cache";
-import { getGlobalTag, getIdTag, getUserTag } from "@/lib/dataCache";
+import {
+  getGlobalTag,
+  getIdTag,
+  getUserTag,
+  revalidateTag,
+} from "@/lib/dataCache";
 
 export function getUserCourseAccessGlobalTag() {
   return getGlobalTag("userCourseAccess");
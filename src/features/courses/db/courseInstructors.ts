@@ -0,0 +1,35 @@
+import { db } from "@/drizzle/db";
+import { CourseInstructorTable } from "@/drizzle/schema";
+import { eq } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import {
+  getCourseInstructorUserTag,
+  revalidateCourseInstructorCache,
+} from "./cache/courseInstructors";
+
+export async function getInstructorCourseIds(userId: string) {
+  "use cache";
+  cacheTag(getCourseInstructorUserTag(userId));
+
+  const courseInstructors = await db.query.CourseInstructorTable.findMany({
+    columns: { courseId: true },
+    where: eq(CourseInstructorTable.userId, userId),
+  });
+
+  return courseInstructors.map(({ courseId }) => courseId);
+}
+
+export async function addCourseInstructor(
+  data: typeof CourseInstructorTable.$inferInsert,
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const [courseInstructor] = await trx
+    .insert(CourseInstructorTable)
+    .values(data)
+    .onConflictDoNothing()
+    .returning();
+
+  if (courseInstructor) revalidateCourseInstructorCache(courseInstructor);
+
+  return courseInstructor;
+}
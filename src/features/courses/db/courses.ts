@@ -1,10 +1,32 @@
-import { CourseTable } from "@/drizzle/schema";
+import {
+  CourseProductTable,
+  CourseTable,
+  ProductTable,
+  UserCourseAccessTable,
+} from "@/drizzle/schema";
 import { db } from "@/drizzle/db";
 import { revalidateCourseCache } from "./cache/courses";
-import { eq } from "drizzle-orm";
+import { addCourseInstructor } from "./courseInstructors";
+import { count, eq } from "drizzle-orm";
 
-export async function insertCourse(data: typeof CourseTable.$inferInsert) {
-  const [newCourse] = await db.insert(CourseTable).values(data).returning();
+// Courses created by an instructor are owned by them from the start, so they
+// can keep editing what they just created.
+export async function insertCourse(
+  data: typeof CourseTable.$inferInsert,
+  { instructorId }: { instructorId?: string } = {}
+) {
+  const newCourse = await db.transaction(async (trx) => {
+    const [newCourse] = await trx.insert(CourseTable).values(data).returning();
+
+    if (newCourse && instructorId != null) {
+      await addCourseInstructor(
+        { courseId: newCourse.id, userId: instructorId },
+        trx
+      );
+    }
+
+    return newCourse;
+  });
 
   if (!newCourse) throw new Error("Failed to create course");
 
@@ -15,7 +37,7 @@ export async function insertCourse(data: typeof CourseTable.$inferInsert) {
 
 export async function updateCourseDB(
   id: string,
-  data: typeof CourseTable.$inferInsert
+  data: Partial<typeof CourseTable.$inferInsert>
 ) {
   const [updatedCourse] = await db
     .update(CourseTable)
@@ -30,6 +52,31 @@ export async function updateCourseDB(
   return updatedCourse;
 }
 
+// Products still selling the course block its deletion at the database level,
+// and learners with access would silently lose it, so both have to be gone
+// before a course can be deleted rather than archived.
+export async function getCourseDeleteBlockers(id: string) {
+  const [products, [learners]] = await Promise.all([
+    db
+      .select({ name: ProductTable.name })
+      .from(CourseProductTable)
+      .innerJoin(
+        ProductTable,
+        eq(ProductTable.id, CourseProductTable.productId)
+      )
+      .where(eq(CourseProductTable.courseId, id)),
+    db
+      .select({ count: count() })
+      .from(UserCourseAccessTable)
+      .where(eq(UserCourseAccessTable.courseId, id)),
+  ]);
+
+  return {
+    productNames: products.map(({ name }) => name),
+    learnersCount: learners?.count ?? 0,
+  };
+}
+
 export async function deleteCourseDB(id: string) {
   const [deletedCourse] = await db
     .delete(CourseTable)
@@ -0,0 +1,67 @@
+import { db } from "@/drizzle/db";
+import { EnrollmentInvitationTable } from "@/drizzle/schema";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { addUserCourseAccess } from "./userCourseAccess";
+
+export async function insertEnrollmentInvitations(
+  invitations: { email: string; courseId: string }[],
+  trx: Omit<typeof db, "$client"> = db
+) {
+  if (invitations.length === 0) return [];
+
+  // An email only ever has one pending invitation per course.
+  return trx
+    .insert(EnrollmentInvitationTable)
+    .values(
+      invitations.map(({ email, courseId }) => ({
+        email: email.toLowerCase(),
+        courseId,
+      }))
+    )
+    .onConflictDoNothing()
+    .returning();
+}
+
+// Turns every pending invitation for the email into course access for the
+// user. Safe to call on each sync since redeemed invitations are skipped.
+export async function redeemEnrollmentInvitations({
+  userId,
+  email,
+}: {
+  userId: string;
+  email: string;
+}) {
+  return db.transaction(async (trx) => {
+    const redeemedInvitations = await trx
+      .update(EnrollmentInvitationTable)
+      .set({ redeemedAt: new Date(), redeemedByUserId: userId })
+      .where(
+        and(
+          eq(EnrollmentInvitationTable.email, email.toLowerCase()),
+          isNull(EnrollmentInvitationTable.redeemedAt)
+        )
+      )
+      .returning({ courseId: EnrollmentInvitationTable.courseId });
+
+    return addUserCourseAccess(
+      {
+        userId,
+        courseIds: redeemedInvitations.map(({ courseId }) => courseId),
+        manuallyGranted: true,
+      },
+      trx
+    );
+  });
+}
+
+export async function getPendingEnrollmentInvitations(emails: string[]) {
+  if (emails.length === 0) return [];
+
+  return db.query.EnrollmentInvitationTable.findMany({
+    columns: { email: true, courseId: true },
+    where: and(
+      inArray(EnrollmentInvitationTable.email, emails),
+      isNull(EnrollmentInvitationTable.redeemedAt)
+    ),
+  });
+}
@@ -0,0 +1,392 @@
+import { db } from "@/drizzle/db";
+import {
+  CourseRevisionContent,
+  CourseRevisionTable,
+  CourseSectionTable,
+  CourseTable,
+  LessonTable,
+} from "@/drizzle/schema";
+import { revalidateCourseSectionCache } from "@/features/courseSection/db/cache";
+import { revalidateLessonCache } from "@/features/lessons/db/cache/lesson";
+import { withDeferredRevalidation } from "@/lib/dataCache";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  max,
+  notInArray,
+} from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import { getLearnerCourse } from "../lib/revisions";
+import { getCourseIdTag, revalidateCourseCache } from "./cache/courses";
+import {
+  getCourseRevisionCourseTag,
+  getCourseRevisionIdTag,
+  revalidateCourseRevisionCache,
+} from "./cache/courseRevisions";
+
+// Reads the draft straight from the course, section and lesson tables in the
+// shape revisions are stored in.
+export async function getCourseDraftContent(
+  courseId: string,
+  trx: Omit<typeof db, "$client"> = db
+): Promise<CourseRevisionContent | null> {
+  const course = await trx.query.CourseTable.findFirst({
+    columns: { title: true, description: true },
+    where: eq(CourseTable.id, courseId),
+    with: {
+      courseSections: {
+        columns: { id: true, name: true, status: true, dripDays: true },
+        where: isNull(CourseSectionTable.deletedAt),
+        orderBy: asc(CourseSectionTable.order),
+        with: {
+          lessons: {
+            columns: {
+              id: true,
+              name: true,
+              description: true,
+              status: true,
+              youtubeVideoId: true,
+              dripDays: true,
+            },
+            where: isNull(LessonTable.deletedAt),
+            orderBy: asc(LessonTable.order),
+          },
+        },
+      },
+    },
+  });
+
+  if (course == null) return null;
+
+  return {
+    title: course.title,
+    description: course.description,
+    sections: course.courseSections,
+  };
+}
+
+// Snapshots the draft as the next revision and makes it the one learners see.
+export async function publishCourseDB(
+  {
+    courseId,
+    authorId,
+    rolledBackFromRevisionId = null,
+  }: {
+    courseId: string;
+    authorId: string | null;
+    rolledBackFromRevisionId?: string | null;
+  },
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const newRevision = await trx.transaction(async (trx) => {
+    const content = await getCourseDraftContent(courseId, trx);
+    if (content == null) return trx.rollback();
+
+    return insertCourseRevision(
+      { courseId, content, authorId, rolledBackFromRevisionId },
+      trx
+    );
+  });
+
+  if (!newRevision) throw new Error("Failed to publish course");
+
+  revalidateCourseCache(courseId);
+  revalidateCourseRevisionCache(newRevision);
+
+  return newRevision;
+}
+
+// Publishes content that did not come from the draft, such as the published
+// content with scheduled items made public.
+export async function publishCourseContentDB(
+  {
+    courseId,
+    content,
+    authorId,
+  }: {
+    courseId: string;
+    content: CourseRevisionContent;
+    authorId: string | null;
+  },
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const newRevision = await trx.transaction((trx) =>
+    insertCourseRevision({ courseId, content, authorId }, trx)
+  );
+
+  if (!newRevision) throw new Error("Failed to publish course");
+
+  revalidateCourseCache(courseId);
+  revalidateCourseRevisionCache(newRevision);
+
+  return newRevision;
+}
+
+async function insertCourseRevision(
+  {
+    courseId,
+    content,
+    authorId,
+    rolledBackFromRevisionId = null,
+  }: {
+    courseId: string;
+    content: CourseRevisionContent;
+    authorId: string | null;
+    rolledBackFromRevisionId?: string | null;
+  },
+  trx: Omit<typeof db, "$client">
+) {
+  // Locking the course makes concurrent publishes take turns, so they never
+  // read the same latest number.
+  const [course] = await trx
+    .select({ id: CourseTable.id })
+    .from(CourseTable)
+    .where(eq(CourseTable.id, courseId))
+    .for("update");
+  if (course == null) return undefined;
+
+  const [latest] = await trx
+    .select({ number: max(CourseRevisionTable.number) })
+    .from(CourseRevisionTable)
+    .where(eq(CourseRevisionTable.courseId, courseId));
+
+  const [newRevision] = await trx
+    .insert(CourseRevisionTable)
+    .values({
+      courseId,
+      number: (latest?.number ?? 0) + 1,
+      content,
+      authorId,
+      rolledBackFromRevisionId,
+    })
+    .returning();
+
+  if (newRevision == null) return undefined;
+
+  await trx
+    .update(CourseTable)
+    .set({ publishedRevisionId: newRevision.id })
+    .where(eq(CourseTable.id, courseId));
+
+  return newRevision;
+}
+
+// Rolling back restores the revision into the draft and publishes it again,
+// so the history only ever grows. Sections and lessons keep their ids, and
+// rows are never removed, which keeps learner progress attached to restored
+// lessons. Caches are revalidated once the whole rollback has committed.
+export async function rollbackCourseDB({
+  courseId,
+  revisionId,
+  authorId,
+}: {
+  courseId: string;
+  revisionId: string;
+  authorId: string | null;
+}) {
+  const result = await withDeferredRevalidation(() =>
+    db.transaction(async (trx) => {
+      const revision = await trx.query.CourseRevisionTable.findFirst({
+        columns: { id: true, content: true },
+        where: and(
+          eq(CourseRevisionTable.id, revisionId),
+          eq(CourseRevisionTable.courseId, courseId)
+        ),
+      });
+
+      if (revision == null) return null;
+
+      const restored = await restoreCourseDraft(
+        courseId,
+        revision.content,
+        trx
+      );
+      const newRevision = await publishCourseDB(
+        { courseId, authorId, rolledBackFromRevisionId: revision.id },
+        trx
+      );
+
+      return { ...restored, newRevision };
+    })
+  );
+
+  if (result == null) return null;
+
+  result.sectionIds.forEach((id) =>
+    revalidateCourseSectionCache({ courseId, id })
+  );
+  result.lessonIds.forEach((id) => revalidateLessonCache({ courseId, id }));
+
+  return result.newRevision;
+}
+
+async function restoreCourseDraft(
+  courseId: string,
+  { title, description, sections }: CourseRevisionContent,
+  trx: Omit<typeof db, "$client">
+) {
+  await trx
+    .update(CourseTable)
+    .set({ title, description })
+    .where(eq(CourseTable.id, courseId));
+
+  const sectionIds = sections.map(({ id }) => id);
+  const lessonIds = sections.flatMap(({ lessons }) =>
+    lessons.map(({ id }) => id)
+  );
+  const currentSections = await trx.query.CourseSectionTable.findMany({
+    columns: { id: true },
+    where: eq(CourseSectionTable.courseId, courseId),
+  });
+
+  // Content missing from the revision is only marked as deleted, like draft
+  // deletes, so progress on it is kept if a later rollback brings it back.
+  const deletedAt = new Date();
+  await trx
+    .update(CourseSectionTable)
+    .set({ deletedAt })
+    .where(
+      and(
+        eq(CourseSectionTable.courseId, courseId),
+        isNull(CourseSectionTable.deletedAt),
+        sectionIds.length > 0
+          ? notInArray(CourseSectionTable.id, sectionIds)
+          : undefined
+      )
+    );
+  const deletedLessons =
+    currentSections.length === 0
+      ? []
+      : await trx
+          .update(LessonTable)
+          .set({ deletedAt })
+          .where(
+            and(
+              inArray(
+                LessonTable.sectionId,
+                currentSections.map(({ id }) => id)
+              ),
+              isNull(LessonTable.deletedAt),
+              lessonIds.length > 0
+                ? notInArray(LessonTable.id, lessonIds)
+                : undefined
+            )
+          )
+          .returning({ id: LessonTable.id });
+
+  for (const [order, { lessons, ...section }] of sections.entries()) {
+    const sectionData = {
+      name: section.name,
+      status: section.status,
+      dripDays: section.dripDays ?? null,
+      order,
+      deletedAt: null,
+    };
+    await trx
+      .insert(CourseSectionTable)
+      .values({ id: section.id, courseId, ...sectionData })
+      .onConflictDoUpdate({ target: CourseSectionTable.id, set: sectionData });
+
+    for (const [order, { id, ...lesson }] of lessons.entries()) {
+      const lessonData = {
+        ...lesson,
+        dripDays: lesson.dripDays ?? null,
+        sectionId: section.id,
+        order,
+        deletedAt: null,
+      };
+      await trx
+        .insert(LessonTable)
+        .values({ id, ...lessonData })
+        .onConflictDoUpdate({ target: LessonTable.id, set: lessonData });
+    }
+  }
+
+  return {
+    sectionIds: [
+      ...new Set([...sectionIds, ...currentSections.map(({ id }) => id)]),
+    ],
+    lessonIds: [...lessonIds, ...deletedLessons.map(({ id }) => id)],
+  };
+}
+
+export async function getCourseRevisions(courseId: string) {
+  "use cache";
+  cacheTag(getCourseRevisionCourseTag(courseId), getCourseIdTag(courseId));
+
+  return db.query.CourseRevisionTable.findMany({
+    columns: { id: true, number: true, createdAt: true },
+    where: eq(CourseRevisionTable.courseId, courseId),
+    orderBy: desc(CourseRevisionTable.number),
+    with: {
+      author: { columns: { name: true } },
+      rolledBackFromRevision: { columns: { number: true } },
+    },
+  });
+}
+
+export async function getCourseRevision(id: string) {
+  "use cache";
+  cacheTag(getCourseRevisionIdTag(id));
+
+  return db.query.CourseRevisionTable.findFirst({
+    columns: {
+      id: true,
+      courseId: true,
+      number: true,
+      content: true,
+      createdAt: true,
+    },
+    where: eq(CourseRevisionTable.id, id),
+    with: { author: { columns: { name: true } } },
+  });
+}
+
+export async function getPreviousCourseRevision({
+  courseId,
+  number,
+}: {
+  courseId: string;
+  number: number;
+}) {
+  "use cache";
+  cacheTag(getCourseRevisionCourseTag(courseId));
+
+  return db.query.CourseRevisionTable.findFirst({
+    columns: { id: true, number: true, content: true },
+    where: and(
+      eq(CourseRevisionTable.courseId, courseId),
+      eq(CourseRevisionTable.number, number - 1)
+    ),
+  });
+}
+
+export async function getPublishedCourseContent(courseId: string) {
+  const course = await db.query.CourseTable.findFirst({
+    columns: {},
+    where: eq(CourseTable.id, courseId),
+    with: { publishedRevision: { columns: { content: true } } },
+  });
+
+  return course?.publishedRevision?.content ?? null;
+}
+
+// What learners see of the course, or null until it is first published.
+export async function getPublishedCourse(courseId: string) {
+  "use cache";
+  cacheTag(getCourseIdTag(courseId));
+
+  const course = await db.query.CourseTable.findFirst({
+    columns: { id: true, title: true, description: true },
+    where: eq(CourseTable.id, courseId),
+    with: { publishedRevision: { columns: { content: true } } },
+  });
+
+  if (course?.publishedRevision == null) return null;
+
+  return getLearnerCourse(course);
+}
@@ -0,0 +1,131 @@
+import { db } from "@/drizzle/db";
+import {
+  CourseRevisionContent,
+  CourseSectionTable,
+  CourseTable,
+  LessonTable,
+} from "@/drizzle/schema";
+import { revalidateCourseSectionCache } from "@/features/courseSection/db/cache";
+import { revalidateLessonCache } from "@/features/lessons/db/cache/lesson";
+import { withDeferredRevalidation } from "@/lib/dataCache";
+import { and, eq, inArray, isNull, lte } from "drizzle-orm";
+import { publishCourseContentDB } from "./revisions";
+
+// Makes private sections and lessons whose publish time has passed public.
+// The draft is updated, and so is the published revision of each course they
+// are already part of, without publishing any other draft changes with them.
+// Caches are revalidated once everything has committed.
+export async function publishScheduledContentDB(now = new Date()) {
+  const { sections, lessons, courseIds } = await withDeferredRevalidation(() =>
+    db.transaction(async (trx) => {
+      const sections = await trx
+        .update(CourseSectionTable)
+        .set({ status: "public", publishAt: null })
+        .where(
+          and(
+            eq(CourseSectionTable.status, "private"),
+            lte(CourseSectionTable.publishAt, now),
+            isNull(CourseSectionTable.deletedAt)
+          )
+        )
+        .returning({
+          id: CourseSectionTable.id,
+          courseId: CourseSectionTable.courseId,
+        });
+
+      const updatedLessons = await trx
+        .update(LessonTable)
+        .set({ status: "public", publishAt: null })
+        .where(
+          and(
+            eq(LessonTable.status, "private"),
+            lte(LessonTable.publishAt, now),
+            isNull(LessonTable.deletedAt)
+          )
+        )
+        .returning({ id: LessonTable.id, sectionId: LessonTable.sectionId });
+
+      const lessonSections =
+        updatedLessons.length === 0
+          ? []
+          : await trx.query.CourseSectionTable.findMany({
+              columns: { id: true, courseId: true },
+              where: inArray(
+                CourseSectionTable.id,
+                updatedLessons.map(({ sectionId }) => sectionId)
+              ),
+            });
+      const lessons = updatedLessons.flatMap(({ id, sectionId }) => {
+        const section = lessonSections.find(({ id }) => id === sectionId);
+        return section == null ? [] : [{ id, courseId: section.courseId }];
+      });
+
+      const courseIds = [
+        ...new Set([...sections, ...lessons].map(({ courseId }) => courseId)),
+      ];
+      const sectionIds = new Set(sections.map(({ id }) => id));
+      const lessonIds = new Set(lessons.map(({ id }) => id));
+
+      for (const courseId of courseIds) {
+        const course = await trx.query.CourseTable.findFirst({
+          columns: {},
+          where: eq(CourseTable.id, courseId),
+          with: { publishedRevision: { columns: { content: true } } },
+        });
+        if (course?.publishedRevision == null) continue;
+
+        const content = publishScheduledItems(
+          course.publishedRevision.content,
+          sectionIds,
+          lessonIds
+        );
+        if (content == null) continue;
+
+        await publishCourseContentDB(
+          { courseId, content, authorId: null },
+          trx
+        );
+      }
+
+      return { sections, lessons, courseIds };
+    })
+  );
+
+  sections.forEach(revalidateCourseSectionCache);
+  lessons.forEach(revalidateLessonCache);
+
+  return {
+    sectionsCount: sections.length,
+    lessonsCount: lessons.length,
+    coursesCount: courseIds.length,
+  };
+}
+
+// Returns null when none of the items are part of the published content yet.
+function publishScheduledItems(
+  content: CourseRevisionContent,
+  sectionIds: Set<string>,
+  lessonIds: Set<string>
+): CourseRevisionContent | null {
+  let changed = false;
+
+  const sections = content.sections.map((section) => {
+    const lessons = section.lessons.map((lesson) => {
+      if (!lessonIds.has(lesson.id) || lesson.status !== "private") {
+        return lesson;
+      }
+
+      changed = true;
+      return { ...lesson, status: "public" as const };
+    });
+
+    if (!sectionIds.has(section.id) || section.status !== "private") {
+      return { ...section, lessons };
+    }
+
+    changed = true;
+    return { ...section, status: "public" as const, lessons };
+  });
+
+  return changed ? { ...content, sections } : null;
+}
@@ -0,0 +1,227 @@
+import { db } from "@/drizzle/db";
+import {
+  ProductTable,
+  PurchaseTable,
+  SubscriptionTable,
+  UserCourseAccessTable,
+} from "@/drizzle/schema";
+import { and, eq, inArray, isNotNull, isNull, or, sql } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import {
+  getUserCourseAccessUserTag,
+  revalidateUserCourseAccessCache,
+} from "./cache/userCourseAccess";
+import { isAccessActive } from "../lib/accessExpiry";
+import { getOwnedPurchasesWhere } from "@/features/purchases/lib/ownedPurchases";
+import { getSubscriptionAccessExpiresAt } from "@/features/subscriptions/lib/accessExpiry";
+
+export async function getUserCourseAccesses(userId: string) {
+  "use cache";
+  cacheTag(getUserCourseAccessUserTag(userId));
+
+  return db.query.UserCourseAccessTable.findMany({
+    columns: { courseId: true, expiresAt: true, createdAt: true },
+    where: eq(UserCourseAccessTable.userId, userId),
+  });
+}
+
+// Only the courses the user can currently open, expired access is left out.
+export async function getUserCourseIds(userId: string) {
+  const accesses = await getUserCourseAccesses(userId);
+
+  return accesses
+    .filter(({ expiresAt }) => isAccessActive(expiresAt))
+    .map(({ courseId }) => courseId);
+}
+
+// Grants access that expires at `expiresAt`, or permanent access when it is
+// null. `manuallyGranted` marks access given without a payment. Existing
+// access is only ever extended, so only new, extended or newly marked rows
+// are returned.
+export async function addUserCourseAccess(
+  {
+    userId,
+    courseIds,
+    expiresAt = null,
+    manuallyGranted = false,
+  }: {
+    userId: string;
+    courseIds: string[];
+    expiresAt?: Date | null;
+    manuallyGranted?: boolean;
+  },
+  trx: Omit<typeof db, "$client"> = db
+) {
+  if (courseIds.length === 0) return [];
+
+  const accesses = await trx
+    .insert(UserCourseAccessTable)
+    .values(
+      courseIds.map((courseId) => ({
+        userId,
+        courseId,
+        expiresAt,
+        manuallyGranted,
+      }))
+    )
+    .onConflictDoUpdate({
+      target: [UserCourseAccessTable.userId, UserCourseAccessTable.courseId],
+      set: {
+        expiresAt: sql`case when excluded."expiresAt" is null or ${UserCourseAccessTable.expiresAt} is null then null else greatest(excluded."expiresAt", ${UserCourseAccessTable.expiresAt}) end`,
+        manuallyGranted: sql`excluded."manuallyGranted" or ${UserCourseAccessTable.manuallyGranted}`,
+      },
+      setWhere: or(
+        and(
+          isNotNull(UserCourseAccessTable.expiresAt),
+          or(
+            sql`excluded."expiresAt" is null`,
+            sql`excluded."expiresAt" > ${UserCourseAccessTable.expiresAt}`
+          )
+        ),
+        and(
+          sql`excluded."manuallyGranted"`,
+          eq(UserCourseAccessTable.manuallyGranted, false)
+        )
+      ),
+    })
+    .returning();
+
+  accesses.forEach(revalidateUserCourseAccessCache);
+
+  return accesses;
+}
+
+// Returns null when the user had no access to remove.
+export async function removeUserCourseAccess({
+  userId,
+  courseId,
+}: {
+  userId: string;
+  courseId: string;
+}) {
+  const [deletedAccess] = await db
+    .delete(UserCourseAccessTable)
+    .where(
+      and(
+        eq(UserCourseAccessTable.userId, userId),
+        eq(UserCourseAccessTable.courseId, courseId)
+      )
+    )
+    .returning();
+
+  if (!deletedAccess) return null;
+
+  revalidateUserCourseAccessCache(deletedAccess);
+
+  return deletedAccess;
+}
+
+// Removes access to the product's courses, except for courses the user still
+// has through another purchase that has not been refunded or expired, or
+// through a subscription that has not run out. Access to those courses is cut
+// back to what remains. Manually granted access is never touched.
+export async function revokeUserCourseAccess(
+  { userId, productId }: { userId: string; productId: string },
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const [validPurchases, subscriptions, revokedProduct] = await Promise.all([
+    trx.query.PurchaseTable.findMany({
+      columns: { id: true, accessExpiresAt: true },
+      where: and(
+        getOwnedPurchasesWhere(userId),
+        isNull(PurchaseTable.refundedAt)
+      ),
+      with: {
+        product: {
+          with: { courseProducts: { columns: { courseId: true } } },
+        },
+      },
+    }),
+    trx.query.SubscriptionTable.findMany({
+      columns: { currentPeriodEnd: true },
+      where: eq(SubscriptionTable.userId, userId),
+      with: {
+        product: {
+          with: { courseProducts: { columns: { courseId: true } } },
+        },
+      },
+    }),
+    trx.query.ProductTable.findFirst({
+      columns: { id: true },
+      where: eq(ProductTable.id, productId),
+      with: { courseProducts: { columns: { courseId: true } } },
+    }),
+  ]);
+
+  if (revokedProduct == null) return [];
+
+  // The latest expiry per course, or null when something grants it forever.
+  const validExpiresAt = new Map<string, Date | null>();
+  [
+    ...validPurchases.map(({ accessExpiresAt, product }) => ({
+      expiresAt: accessExpiresAt,
+      product,
+    })),
+    ...subscriptions.map(({ currentPeriodEnd, product }) => ({
+      expiresAt: getSubscriptionAccessExpiresAt(currentPeriodEnd),
+      product,
+    })),
+  ]
+    .filter(({ expiresAt }) => isAccessActive(expiresAt))
+    .forEach(({ expiresAt, product }) =>
+      product.courseProducts.forEach(({ courseId }) => {
+        const validExpiry = validExpiresAt.get(courseId);
+        if (
+          !validExpiresAt.has(courseId) ||
+          (validExpiry != null &&
+            (expiresAt == null || expiresAt > validExpiry))
+        ) {
+          validExpiresAt.set(courseId, expiresAt);
+        }
+      })
+    );
+
+  const courseIds = revokedProduct.courseProducts.map(
+    ({ courseId }) => courseId
+  );
+  const revokedCourseIds = courseIds.filter(
+    (courseId) => !validExpiresAt.has(courseId)
+  );
+
+  const revokedAccesses =
+    revokedCourseIds.length === 0
+      ? []
+      : await trx
+          .delete(UserCourseAccessTable)
+          .where(
+            and(
+              eq(UserCourseAccessTable.userId, userId),
+              inArray(UserCourseAccessTable.courseId, revokedCourseIds),
+              eq(UserCourseAccessTable.manuallyGranted, false)
+            )
+          )
+          .returning();
+
+  const updatedAccesses = [];
+  for (const courseId of courseIds) {
+    if (!validExpiresAt.has(courseId)) continue;
+
+    const [updatedAccess] = await trx
+      .update(UserCourseAccessTable)
+      .set({ expiresAt: validExpiresAt.get(courseId) })
+      .where(
+        and(
+          eq(UserCourseAccessTable.userId, userId),
+          eq(UserCourseAccessTable.courseId, courseId),
+          eq(UserCourseAccessTable.manuallyGranted, false)
+        )
+      )
+      .returning();
+    if (updatedAccess) updatedAccesses.push(updatedAccess);
+  }
+
+  revokedAccesses.forEach(revalidateUserCourseAccessCache);
+  updatedAccesses.forEach(revalidateUserCourseAccessCache);
+
+  return revokedAccesses;
+}
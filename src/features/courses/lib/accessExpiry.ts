@@ -0,0 +1,16 @@
+// Expiry is checked against the current time on every request, outside of any
+// cached query, so access stops working at the moment it expires.
+export function isAccessActive(expiresAt: Date | null, now = new Date()) {
+  return expiresAt == null || expiresAt > now;
+}
+
+export function getAccessExpiresAt(
+  durationMonths: number | null,
+  from = new Date()
+) {
+  if (durationMonths == null) return null;
+
+  const expiresAt = new Date(from);
+  expiresAt.setMonth(expiresAt.getMonth() + durationMonths);
+  return expiresAt;
+}
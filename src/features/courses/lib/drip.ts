@@ -0,0 +1,27 @@
+// A lesson waits for the longer of its own delay and its section's delay.
+export function getLessonDripDays(
+  section: { dripDays?: number | null },
+  lesson: { dripDays?: number | null }
+) {
+  const dripDays = Math.max(section.dripDays ?? 0, lesson.dripDays ?? 0);
+  return dripDays > 0 ? dripDays : null;
+}
+
+// Counted from when the learner was given access to the course, or null when
+// the lesson is available straight away.
+export function getLessonUnlocksAt(
+  accessCreatedAt: Date,
+  dripDays: number | null | undefined
+) {
+  if (dripDays == null) return null;
+
+  const unlocksAt = new Date(accessCreatedAt);
+  unlocksAt.setDate(unlocksAt.getDate() + dripDays);
+  return unlocksAt;
+}
+
+// Like access expiry, this is checked against the current time outside of any
+// cached query.
+export function isLessonUnlocked(unlocksAt: Date | null, now = new Date()) {
+  return unlocksAt == null || unlocksAt <= now;
+}
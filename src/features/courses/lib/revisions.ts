@@ -0,0 +1,228 @@
+import { CourseRevisionContent } from "@/drizzle/schema";
+
+type Section = CourseRevisionContent["sections"][number];
+type Lesson = Section["lessons"][number];
+
+export type CourseContentChange = {
+  item: "course" | "section" | "lesson";
+  type: "added" | "removed" | "changed" | "moved" | "reordered";
+  name: string;
+  fields?: { field: string; before: string | null; after: string | null }[];
+  details?: string;
+};
+
+// Learners only ever see public sections and their public or preview lessons.
+export function getLearnerSections(content: CourseRevisionContent) {
+  return content.sections
+    .filter((section) => section.status === "public")
+    .map((section) => ({
+      ...section,
+      lessons: section.lessons.filter(
+        (lesson) => lesson.status === "public" || lesson.status === "preview"
+      ),
+    }));
+}
+
+// Courses that were never published are shown without any lessons.
+export function getLearnerCourse({
+  id,
+  title,
+  description,
+  publishedRevision,
+}: {
+  id: string;
+  title: string;
+  description: string;
+  publishedRevision: { content: CourseRevisionContent } | null;
+}) {
+  if (publishedRevision == null) {
+    return { id, title, description, sections: [] };
+  }
+
+  const { content } = publishedRevision;
+  return {
+    id,
+    title: content.title,
+    description: content.description,
+    sections: getLearnerSections(content),
+  };
+}
+
+// Sections and lessons are matched by id, so renaming one shows up as a
+// change rather than as a removal and an addition. Reordering is reported
+// once per list instead of for every item that shifted.
+export function diffCourseContent(
+  before: CourseRevisionContent | null,
+  after: CourseRevisionContent
+): CourseContentChange[] {
+  if (before == null) {
+    return [
+      { item: "course", type: "added", name: after.title },
+      ...after.sections.map((section): CourseContentChange => ({
+        item: "section",
+        type: "added",
+        name: section.name,
+        details: `${section.lessons.length} lesson(s)`,
+      })),
+    ];
+  }
+
+  const changes: CourseContentChange[] = [];
+  const courseFields = getFieldChanges(before, after, {
+    title: "Title",
+    description: "Description",
+  });
+  if (courseFields.length > 0) {
+    changes.push({
+      item: "course",
+      type: "changed",
+      name: after.title,
+      fields: courseFields,
+    });
+  }
+
+  const beforeSections = new Map(before.sections.map((s) => [s.id, s]));
+  const afterSections = new Map(after.sections.map((s) => [s.id, s]));
+
+  before.sections
+    .filter((section) => !afterSections.has(section.id))
+    .forEach((section) =>
+      changes.push({ item: "section", type: "removed", name: section.name })
+    );
+
+  after.sections.forEach((section) => {
+    const beforeSection = beforeSections.get(section.id);
+    if (beforeSection == null) {
+      changes.push({ item: "section", type: "added", name: section.name });
+      return;
+    }
+
+    const fields = getFieldChanges(beforeSection, section, {
+      name: "Name",
+      status: "Status",
+      dripDays: "Unlock delay (days)",
+    });
+    if (fields.length > 0) {
+      changes.push({
+        item: "section",
+        type: "changed",
+        name: section.name,
+        fields,
+      });
+    }
+  });
+
+  if (isReordered(before.sections, after.sections)) {
+    changes.push({ item: "section", type: "reordered", name: after.title });
+  }
+
+  changes.push(...diffLessons(before.sections, after.sections));
+
+  return changes;
+}
+
+function diffLessons(
+  beforeSections: Section[],
+  afterSections: Section[]
+): CourseContentChange[] {
+  const changes: CourseContentChange[] = [];
+  const beforeLessons = new Map(
+    beforeSections.flatMap((section) =>
+      section.lessons.map((lesson) => [lesson.id, { lesson, section }] as const)
+    )
+  );
+  const afterLessonIds = new Set(
+    afterSections.flatMap((section) => section.lessons.map(({ id }) => id))
+  );
+
+  beforeLessons.forEach(({ lesson, section }) => {
+    if (afterLessonIds.has(lesson.id)) return;
+    changes.push({
+      item: "lesson",
+      type: "removed",
+      name: lesson.name,
+      details: `From ${section.name}`,
+    });
+  });
+
+  afterSections.forEach((section) => {
+    section.lessons.forEach((lesson) => {
+      const before = beforeLessons.get(lesson.id);
+      if (before == null) {
+        changes.push({
+          item: "lesson",
+          type: "added",
+          name: lesson.name,
+          details: `In ${section.name}`,
+        });
+        return;
+      }
+
+      if (before.section.id !== section.id) {
+        changes.push({
+          item: "lesson",
+          type: "moved",
+          name: lesson.name,
+          details: `From ${before.section.name} to ${section.name}`,
+        });
+      }
+
+      const fields = getFieldChanges<Lesson>(before.lesson, lesson, {
+        name: "Name",
+        description: "Description",
+        status: "Status",
+        youtubeVideoId: "Video",
+        dripDays: "Unlock delay (days)",
+      });
+      if (fields.length > 0) {
+        changes.push({
+          item: "lesson",
+          type: "changed",
+          name: lesson.name,
+          fields,
+        });
+      }
+    });
+
+    const beforeSection = beforeSections.find(({ id }) => id === section.id);
+    if (
+      beforeSection != null &&
+      isReordered(beforeSection.lessons, section.lessons)
+    ) {
+      changes.push({ item: "lesson", type: "reordered", name: section.name });
+    }
+  });
+
+  return changes;
+}
+
+function getFieldChanges<T>(
+  before: T,
+  after: T,
+  labels: Partial<Record<keyof T, string>>
+) {
+  return (Object.keys(labels) as (keyof T)[]).flatMap((key) => {
+    const beforeValue = before[key] == null ? null : String(before[key]);
+    const afterValue = after[key] == null ? null : String(after[key]);
+    if (beforeValue === afterValue) return [];
+
+    return [
+      {
+        field: labels[key] ?? String(key),
+        before: beforeValue,
+        after: afterValue,
+      },
+    ];
+  });
+}
+
+// Only items present in both lists are compared, so additions and removals
+// do not count as reordering.
+function isReordered(before: { id: string }[], after: { id: string }[]) {
+  const afterIds = new Set(after.map(({ id }) => id));
+  const beforeIds = new Set(before.map(({ id }) => id));
+  const beforeOrder = before.filter(({ id }) => afterIds.has(id));
+  const afterOrder = after.filter(({ id }) => beforeIds.has(id));
+
+  return beforeOrder.some((item, i) => item.id !== afterOrder[i]?.id);
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+export const BULK_ENROLLMENT_MAX_ROWS = 1000;
+
+export const bulkEnrollmentSchema = z.object({
+  csv: z.string().trim().min(1, { message: "CSV is required." }),
+  dryRun: z.boolean(),
+});
+
+export type BulkEnrollmentSchemaType = z.infer<typeof bulkEnrollmentSchema>;
+
+// A single CSV row enrolls one email in either a course or every course of a
+// product. Empty cells are treated as missing.
+export const bulkEnrollmentRowSchema = z
+  .object({
+    email: z.email({ message: "Invalid email." }).toLowerCase(),
+    courseId: z.uuid({ message: "Invalid course id." }).optional(),
+    productId: z.uuid({ message: "Invalid product id." }).optional(),
+  })
+  .refine((row) => (row.courseId == null) !== (row.productId == null), {
+    message: "Each row needs either a course id or a product id.",
+  });
+
+export type BulkEnrollmentRow = z.infer<typeof bulkEnrollmentRowSchema>;
@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+export const revisionComparisons = ["previous", "draft"] as const;
+
+// Parsed from the revision page search params.
+export const revisionComparisonSchema = z.object({
+  compare: z.enum(revisionComparisons).default("previous").catch("previous"),
+});
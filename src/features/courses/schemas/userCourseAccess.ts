@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+export const userCourseAccessSchema = z.object({
+  courseId: z.uuid({ message: "Course is required." }),
+});
+
+export type UserCourseAccessSchemaType = z.infer<typeof userCourseAccessSchema>;
+
+export const expiringAccessWindows = [7, 30, 90] as const;
+
+// Parsed from the expiring access page search params.
+export const expiringAccessFilterSchema = z.object({
+  days: z.coerce.number().int().positive().max(365).default(30).catch(30),
+});
@@ -0,0 +1,125 @@
+"use server";
+
+import { getCurrentUser } from "@/services/clerk";
+import { can } from "@/permissions/policy";
+import { getSectionCourseId } from "@/features/courseSection/db/sections";
+import {
+  deleteLessonDB,
+  getLessonCourseId,
+  getNextCourseLessonOrder,
+  insertLesson,
+  updateLessonDB,
+  updateLessonOrdersDB,
+} from "../db/lessons";
+import { lessonSchema, LessonSchemaType } from "../schemas/lessons";
+
+export async function createLesson(unsafeData: LessonSchemaType) {
+  const { success, data } = lessonSchema.safeParse(unsafeData);
+  const courseId = success ? await getSectionCourseId(data.sectionId) : null;
+
+  if (
+    !success ||
+    courseId == null ||
+    !(await can(await getCurrentUser(), "create", {
+      type: "lesson",
+      courseId,
+    }))
+  ) {
+    return { error: true, message: "There was an error creating your lesson" };
+  }
+
+  const order = await getNextCourseLessonOrder(data.sectionId);
+
+  if ((await insertLesson({ ...data, order })) == null) {
+    return {
+      error: true,
+      message: "This section no longer exists, please refresh and try again",
+    };
+  }
+
+  return { error: false, message: "Successfully created your lesson" };
+}
+
+export async function updateLesson(id: string, unsafeData: LessonSchemaType) {
+  const { success, data } = lessonSchema.safeParse(unsafeData);
+  const courseId = await getLessonCourseId(id);
+
+  if (
+    !success ||
+    courseId == null ||
+    !(await can(await getCurrentUser(), "update", {
+      type: "lesson",
+      courseId,
+    }))
+  ) {
+    return { error: true, message: "There was an error updating your lesson" };
+  }
+
+  if ((await getSectionCourseId(data.sectionId)) !== courseId) {
+    return {
+      error: true,
+      message: "Lessons can only be moved to a section of the same course",
+    };
+  }
+
+  if ((await updateLessonDB(id, data)) == null) {
+    return {
+      error: true,
+      message: "This lesson is out of date, please refresh and try again",
+    };
+  }
+
+  return { error: false, message: "Successfully updated your lesson" };
+}
+
+export async function deleteLesson(id: string) {
+  const courseId = await getLessonCourseId(id);
+
+  if (
+    courseId == null ||
+    !(await can(await getCurrentUser(), "delete", {
+      type: "lesson",
+      courseId,
+    }))
+  ) {
+    return {
+      error: true,
+      message: "You do not have permission to delete this lesson",
+    };
+  }
+
+  if ((await deleteLessonDB(id)) == null) {
+    return { error: true, message: "This lesson was already deleted" };
+  }
+
+  return { error: false, message: "Lesson deleted successfully" };
+}
+
+export async function updateLessonOrders(
+  sectionId: string,
+  lessonIds: string[]
+) {
+  const courseId = await getSectionCourseId(sectionId);
+
+  if (
+    lessonIds.length === 0 ||
+    courseId == null ||
+    !(await can(await getCurrentUser(), "update", {
+      type: "lesson",
+      courseId,
+    }))
+  ) {
+    return { error: true, message: "Error reordering your lessons" };
+  }
+
+  const updatedLessons = await updateLessonOrdersDB(sectionId, lessonIds);
+
+  if (updatedLessons == null) {
+    return {
+      error: true,
+      message: "Lessons are out of date, please refresh and try again",
+    };
+  }
+
+  return { error: false, message: "Successfully reordered your lessons" };
+}
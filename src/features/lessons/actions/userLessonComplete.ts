@@ -0,0 +1,37 @@
+"use server";
+
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { getLessonCourseId, getPublishedLesson } from "../db/lessons";
+import { updateLessonCompleteStatusDB } from "../db/userLessonComplete";
+
+export async function updateLessonCompleteStatus(
+  lessonId: string,
+  complete: boolean
+) {
+  const user = await getCurrentUser();
+  const courseId = await getLessonCourseId(lessonId);
+  const lesson =
+    courseId == null ? null : await getPublishedLesson({ courseId, lessonId });
+
+  if (
+    user.userId == null ||
+    lesson == null ||
+    !(await can(user, "read", { type: "lesson", ...lesson }))
+  ) {
+    return { error: true, message: "Error updating lesson completion status" };
+  }
+
+  await updateLessonCompleteStatusDB({
+    userId: user.userId,
+    lessonId,
+    complete,
+  });
+
+  return {
+    error: false,
+    message: complete
+      ? "Lesson marked as complete"
+      : "Lesson marked as incomplete",
+  };
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import RequiredLabelIcon from "@/components/RequiredLabelIcon";
+import { DateTimeInput } from "@/components/DateTimeInput";
+import { NullableNumberInput } from "@/components/NullableNumberInput";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { LessonStatus, lessonStatuses } from "@/drizzle/schema";
+import { lessonSchema, LessonSchemaType } from "../schemas/lessons";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createLesson, updateLesson } from "../actions/lessons";
+
+const LessonForm = ({
+  sections,
+  defaultSectionId,
+  lesson,
+  onSuccess,
+}: {
+  sections: { id: string; name: string }[];
+  defaultSectionId?: string;
+  lesson?: {
+    id: string;
+    name: string;
+    status: LessonStatus;
+    youtubeVideoId: string | null;
+    description: string | null;
+    sectionId: string;
+    publishAt: Date | null;
+    dripDays: number | null;
+  };
+  onSuccess?: () => void;
+}) => {
+  const form = useForm<LessonSchemaType>({
+    resolver: zodResolver(lessonSchema),
+    defaultValues: {
+      name: lesson?.name ?? "",
+      status: lesson?.status ?? "public",
+      youtubeVideoId: lesson?.youtubeVideoId ?? "",
+      description: lesson?.description ?? "",
+      sectionId: lesson?.sectionId ?? defaultSectionId ?? sections[0]?.id ?? "",
+      publishAt: lesson?.publishAt ?? null,
+      dripDays: lesson?.dripDays ?? null,
+    },
+  });
+
+  async function onSubmit(values: LessonSchemaType) {
+    const action = lesson ? updateLesson.bind(null, lesson.id) : createLesson;
+
+    const data = await action(values);
+    toast.success(data?.message);
+    onSuccess?.();
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="flex gap-6 flex-col @container"
+      >
+        <div className="grid grid-cols-1 @lg:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  Name
+                  <RequiredLabelIcon />
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="Name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="youtubeVideoId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  YouTube Video Id
+                  <RequiredLabelIcon />
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="YouTube video id" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="sectionId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Section</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a section" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {sections.map((section) => (
+                      <SelectItem key={section.id} value={section.id}>
+                        {section.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a status" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {lessonStatuses.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="publishAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Publish At</FormLabel>
+                <FormControl>
+                  <DateTimeInput
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Makes the lesson public at this time
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="dripDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Unlock After (Days)</FormLabel>
+                <FormControl>
+                  <NullableNumberInput placeholder="Immediately" {...field} />
+                </FormControl>
+                <FormDescription>
+                  The longer of this and the section delay applies
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea
+                  className="min-h-20 resize-none"
+                  placeholder="Description"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="self-end">
+          <Button disabled={form.formState.isSubmitting} type="submit">
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default LessonForm;
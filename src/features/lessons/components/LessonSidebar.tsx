@@ -0,0 +1,63 @@
+import { formatDate } from "@/lib/formatter";
+import { cn } from "@/lib/utils";
+import { CheckCircle2Icon, LockIcon, VideoIcon } from "lucide-react";
+import Link from "next/link";
+
+const LessonSidebar = ({
+  courseId,
+  activeLessonId,
+  sections,
+}: {
+  courseId: string;
+  activeLessonId: string;
+  sections: {
+    id: string;
+    name: string;
+    lessons: {
+      id: string;
+      name: string;
+      isLocked: boolean;
+      lockedUntil: Date | null;
+      isComplete: boolean;
+    }[];
+  }[];
+}) => {
+  return (
+    <nav className="flex flex-col gap-4">
+      {sections.map((section) => (
+        <div key={section.id} className="flex flex-col gap-1">
+          <div className="font-semibold">{section.name}</div>
+          {section.lessons.map((lesson) => (
+            <Link
+              key={lesson.id}
+              href={`/courses/${courseId}/lessons/${lesson.id}`}
+              className={cn(
+                "flex gap-2 items-center rounded-md px-2 py-1 text-sm hover:bg-accent",
+                lesson.id === activeLessonId && "bg-accent font-medium",
+                lesson.isLocked && "text-muted-foreground"
+              )}
+            >
+              {lesson.isLocked ? (
+                <LockIcon className="size-4 shrink-0" />
+              ) : lesson.isComplete ? (
+                <CheckCircle2Icon className="size-4 shrink-0 text-green-600" />
+              ) : (
+                <VideoIcon className="size-4 shrink-0" />
+              )}
+              <div className="flex flex-col">
+                {lesson.name}
+                {lesson.lockedUntil != null && (
+                  <span className="text-xs">
+                    Unlocks {formatDate(lesson.lockedUntil)}
+                  </span>
+                )}
+              </div>
+            </Link>
+          ))}
+        </div>
+      ))}
+    </nav>
+  );
+};
+
+export default LessonSidebar;
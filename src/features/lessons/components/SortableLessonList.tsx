@@ -0,0 +1,82 @@
+"use client";
+
+import { ActionButton } from "@/components/ActionButton";
+import { SortableItem, SortableList } from "@/components/SortableList";
+import { Button } from "@/components/ui/button";
+import { DialogTrigger } from "@/components/ui/dialog";
+import { LessonStatus } from "@/drizzle/schema";
+import { cn } from "@/lib/utils";
+import { EyeClosed, Trash2Icon, VideoIcon } from "lucide-react";
+import { PublishAtBadge } from "@/components/PublishAtBadge";
+import { DripDaysBadge } from "@/components/DripDaysBadge";
+import { deleteLesson, updateLessonOrders } from "../actions/lessons";
+import { LessonFormDialog } from "./LessonFormDialog";
+
+export function SortableLessonList({
+  sectionId,
+  sections,
+  lessons,
+}: {
+  sectionId: string;
+  sections: { id: string; name: string }[];
+  lessons: {
+    id: string;
+    name: string;
+    status: LessonStatus;
+    youtubeVideoId: string | null;
+    description: string | null;
+    sectionId: string;
+    publishAt: Date | null;
+    dripDays: number | null;
+  }[];
+}) {
+  return (
+    <SortableList
+      items={lessons}
+      onOrderChange={updateLessonOrders.bind(null, sectionId)}
+    >
+      {(items) =>
+        items.map((lesson) => (
+          <SortableItem
+            key={lesson.id}
+            id={lesson.id}
+            className="flex items-center gap-1"
+          >
+            <div
+              className={cn(
+                "contents",
+                lesson.status === "private" && "text-muted-foreground"
+              )}
+            >
+              {lesson.status === "private" && <EyeClosed className="size-4" />}
+              {lesson.status === "preview" && <VideoIcon className="size-4" />}
+              {lesson.name}
+            </div>
+            {lesson.status === "private" && lesson.publishAt != null && (
+              <PublishAtBadge publishAt={lesson.publishAt} />
+            )}
+            {lesson.dripDays != null && (
+              <DripDaysBadge dripDays={lesson.dripDays} />
+            )}
+            <LessonFormDialog lesson={lesson} sections={sections}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="ml-auto">
+                  Edit
+                </Button>
+              </DialogTrigger>
+            </LessonFormDialog>
+            <ActionButton
+              action={deleteLesson.bind(null, lesson.id)}
+              requireAreYouSure
+              variant="destructive"
+              size="sm"
+            >
+              <Trash2Icon />
+              <span className="sr-only">Delete</span>
+            </ActionButton>
+          </SortableItem>
+        ))
+      }
+    </SortableList>
+  );
+}
@@ -0,0 +1,19 @@
+const YouTubeVideoPlayer = ({
+  videoId,
+  title,
+}: {
+  videoId: string;
+  title: string;
+}) => {
+  return (
+    <iframe
+      className="w-full aspect-video rounded-lg"
+      src={`https://www.youtube-nocookie.com/embed/${encodeURIComponent(videoId)}`}
+      title={title}
+      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+      allowFullScreen
+    />
+  );
+};
+
+export default YouTubeVideoPlayer;
@@ -1,5 +1,9 @@
-import { getCourseTag, getGlobalTag, getIdTag } from "@/lib/dataCache";
-import { revalidateTag } from "next/cache";
+import {
+  getCourseTag,
+  getGlobalTag,
+  getIdTag,
+  revalidateTag,
+} from "@/lib/dataCache";
 
 export function getLessonGlobalTag() {
   return getGlobalTag("lessons");
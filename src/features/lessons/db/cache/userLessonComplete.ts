@@ -0,0 +1,36 @@
+import {
+  getGlobalTag,
+  getIdTag,
+  getUserTag,
+  revalidateTag,
+} from "@/lib/dataCache";
+
+export function getUserLessonCompleteGlobalTag() {
+  return getGlobalTag("userLessonComplete");
+}
+
+export function getUserLessonCompleteIdTag({
+  userId,
+  lessonId,
+}: {
+  userId: string;
+  lessonId: string;
+}) {
+  return getIdTag("userLessonComplete", `lesson:${lessonId}-user:${userId}`);
+}
+
+export function getUserLessonCompleteUserTag(userId: string) {
+  return getUserTag("userLessonComplete", userId);
+}
+
+export function revalidateUserLessonCompleteCache({
+  userId,
+  lessonId,
+}: {
+  userId: string;
+  lessonId: string;
+}) {
+  revalidateTag(getUserLessonCompleteGlobalTag());
+  revalidateTag(getUserLessonCompleteIdTag({ userId, lessonId }));
+  revalidateTag(getUserLessonCompleteUserTag(userId));
+}
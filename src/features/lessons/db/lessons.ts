@@ -0,0 +1,244 @@
+import { db } from "@/drizzle/db";
+import { CourseSectionTable, LessonTable } from "@/drizzle/schema";
+import { getPublishedCourse } from "@/features/courses/db/revisions";
+import { getLessonDripDays } from "@/features/courses/lib/drip";
+import { revalidateLessonCache } from "./cache/lesson";
+import { and, eq, isNull } from "drizzle-orm";
+
+export async function getNextCourseLessonOrder(sectionId: string) {
+  const lesson = await db.query.LessonTable.findFirst({
+    columns: { order: true },
+    where: ({ sectionId: sectionIdCol, deletedAt }, { and, eq, isNull }) =>
+      and(eq(sectionIdCol, sectionId), isNull(deletedAt)),
+    orderBy: ({ order }, { desc }) => desc(order),
+  });
+
+  return lesson ? lesson.order + 1 : 0;
+}
+
+// Also finds lessons deleted from the draft, which published revisions may
+// still contain.
+export async function getLessonCourseId(id: string) {
+  const lesson = await db.query.LessonTable.findFirst({
+    columns: {},
+    where: eq(LessonTable.id, id),
+    with: { section: { columns: { courseId: true } } },
+  });
+
+  return lesson?.section.courseId;
+}
+
+// Returns null when the section no longer exists.
+export async function insertLesson(data: typeof LessonTable.$inferInsert) {
+  const result = await db.transaction(async (trx) => {
+    const section = await trx.query.CourseSectionTable.findFirst({
+      columns: { courseId: true },
+      where: and(
+        eq(CourseSectionTable.id, data.sectionId),
+        isNull(CourseSectionTable.deletedAt)
+      ),
+    });
+
+    if (!section) return null;
+
+    const [newLesson] = await trx.insert(LessonTable).values(data).returning();
+
+    return [newLesson, section.courseId] as const;
+  });
+
+  if (result == null) return null;
+
+  const [newLesson, courseId] = result;
+  if (!newLesson) throw new Error("Failed to create lesson");
+
+  revalidateLessonCache({ courseId, id: newLesson.id });
+
+  return newLesson;
+}
+
+// Returns null when the lesson no longer exists or the target section is not
+// part of the same course.
+export async function updateLessonDB(
+  id: string,
+  data: Partial<typeof LessonTable.$inferInsert>
+) {
+  const result = await db.transaction(async (trx) => {
+    const currentLesson = await trx.query.LessonTable.findFirst({
+      columns: { sectionId: true },
+      where: and(eq(LessonTable.id, id), isNull(LessonTable.deletedAt)),
+      with: { section: { columns: { courseId: true } } },
+    });
+
+    if (!currentLesson) return null;
+
+    // Moving a lesson to another section appends it to the end of that
+    // section, and the target section must live in the same course.
+    if (data.sectionId != null && data.sectionId !== currentLesson.sectionId) {
+      const targetSection = await trx.query.CourseSectionTable.findFirst({
+        columns: { courseId: true },
+        where: and(
+          eq(CourseSectionTable.id, data.sectionId),
+          isNull(CourseSectionTable.deletedAt)
+        ),
+      });
+
+      if (targetSection?.courseId !== currentLesson.section.courseId) {
+        return null;
+      }
+
+      if (data.order == null) {
+        data.order = await getNextCourseLessonOrder(data.sectionId);
+      }
+    }
+
+    const [updatedLesson] = await trx
+      .update(LessonTable)
+      .set(data)
+      .where(and(eq(LessonTable.id, id), isNull(LessonTable.deletedAt)))
+      .returning();
+
+    return [updatedLesson, currentLesson.section.courseId] as const;
+  });
+
+  if (result == null) return null;
+
+  const [updatedLesson, courseId] = result;
+  if (!updatedLesson) throw new Error("Failed to update lesson");
+
+  revalidateLessonCache({ courseId, id: updatedLesson.id });
+
+  return updatedLesson;
+}
+
+// Lessons are only marked as deleted, so learners keep their progress while
+// the published revision still has the lesson. Returns null when the lesson
+// was already deleted.
+export async function deleteLessonDB(id: string) {
+  const result = await db.transaction(async (trx) => {
+    const [deletedLesson] = await trx
+      .update(LessonTable)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(LessonTable.id, id), isNull(LessonTable.deletedAt)))
+      .returning();
+
+    if (!deletedLesson) return null;
+
+    const section = await trx.query.CourseSectionTable.findFirst({
+      columns: { courseId: true },
+      where: eq(CourseSectionTable.id, deletedLesson.sectionId),
+    });
+
+    if (!section) return trx.rollback();
+
+    return [deletedLesson, section.courseId] as const;
+  });
+
+  if (result == null) return null;
+
+  const [deletedLesson, courseId] = result;
+
+  revalidateLessonCache({ courseId, id: deletedLesson.id });
+
+  return deletedLesson;
+}
+
+export async function updateLessonOrdersDB(
+  sectionId: string,
+  lessonIds: string[]
+) {
+  const result = await db.transaction(async (trx) => {
+    const section = await trx.query.CourseSectionTable.findFirst({
+      columns: { courseId: true },
+      where: and(
+        eq(CourseSectionTable.id, sectionId),
+        isNull(CourseSectionTable.deletedAt)
+      ),
+      with: {
+        lessons: {
+          columns: { id: true },
+          where: isNull(LessonTable.deletedAt),
+        },
+      },
+    });
+
+    if (!section) return null;
+
+    // Locking the section's lessons keeps them from being moved or deleted
+    // before every order below is written.
+    await trx
+      .select({ id: LessonTable.id })
+      .from(LessonTable)
+      .where(
+        and(eq(LessonTable.sectionId, sectionId), isNull(LessonTable.deletedAt))
+      )
+      .for("update");
+
+    // Stale or partial lists are rejected so a section never ends up with two
+    // lessons sharing a position.
+    const sectionLessonIds = new Set(
+      section.lessons.map((lesson) => lesson.id)
+    );
+    if (
+      new Set(lessonIds).size !== lessonIds.length ||
+      lessonIds.length !== sectionLessonIds.size ||
+      lessonIds.some((id) => !sectionLessonIds.has(id))
+    ) {
+      return null;
+    }
+
+    const updatedLessons = [];
+    for (const [order, id] of lessonIds.entries()) {
+      const [updatedLesson] = await trx
+        .update(LessonTable)
+        .set({ order })
+        .where(
+          and(
+            eq(LessonTable.id, id),
+            eq(LessonTable.sectionId, sectionId),
+            isNull(LessonTable.deletedAt)
+          )
+        )
+        .returning();
+
+      if (!updatedLesson) return trx.rollback();
+      updatedLessons.push(updatedLesson);
+    }
+
+    return { updatedLessons, courseId: section.courseId };
+  });
+
+  if (!result) return null;
+
+  result.updatedLessons.forEach((lesson) => {
+    revalidateLessonCache({ courseId: result.courseId, id: lesson.id });
+  });
+
+  return result.updatedLessons;
+}
+
+// Returns the lesson only if learners can see it in the published revision
+// of the course, which requires a public section and a public or preview
+// lesson.
+export async function getPublishedLesson({
+  courseId,
+  lessonId,
+}: {
+  courseId: string;
+  lessonId: string;
+}) {
+  const course = await getPublishedCourse(courseId);
+
+  for (const section of course?.sections ?? []) {
+    const lesson = section.lessons.find(({ id }) => id === lessonId);
+    if (lesson != null) {
+      return {
+        ...lesson,
+        dripDays: getLessonDripDays(section, lesson),
+        sectionId: section.id,
+        courseId,
+      };
+    }
+  }
+
+  return null;
+}
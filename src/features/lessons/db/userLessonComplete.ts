@@ -0,0 +1,48 @@
+import { db } from "@/drizzle/db";
+import { UserLessonCompleteTable } from "@/drizzle/schema";
+import { and, eq } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import {
+  getUserLessonCompleteUserTag,
+  revalidateUserLessonCompleteCache,
+} from "./cache/userLessonComplete";
+
+export async function getCompletedLessonIds(userId: string) {
+  "use cache";
+  cacheTag(getUserLessonCompleteUserTag(userId));
+
+  const completedLessons = await db.query.UserLessonCompleteTable.findMany({
+    columns: { lessonId: true },
+    where: eq(UserLessonCompleteTable.userId, userId),
+  });
+
+  return completedLessons.map(({ lessonId }) => lessonId);
+}
+
+export async function updateLessonCompleteStatusDB({
+  userId,
+  lessonId,
+  complete,
+}: {
+  userId: string;
+  lessonId: string;
+  complete: boolean;
+}) {
+  if (complete) {
+    await db
+      .insert(UserLessonCompleteTable)
+      .values({ userId, lessonId })
+      .onConflictDoNothing();
+  } else {
+    await db
+      .delete(UserLessonCompleteTable)
+      .where(
+        and(
+          eq(UserLessonCompleteTable.userId, userId),
+          eq(UserLessonCompleteTable.lessonId, lessonId)
+        )
+      );
+  }
+
+  revalidateUserLessonCompleteCache({ userId, lessonId });
+}
@@ -0,0 +1,25 @@
+import { lessonStatuses } from "@/drizzle/schema";
+import { z } from "zod";
+
+export const lessonSchema = z
+  .object({
+    name: z.string().min(1, {
+      message: "Name is required.",
+    }),
+    sectionId: z.string().min(1, {
+      message: "Section is required.",
+    }),
+    status: z.enum(lessonStatuses),
+    youtubeVideoId: z.string().min(1, {
+      message: "YouTube video id is required.",
+    }),
+    description: z.string().nullable(),
+    publishAt: z.date().nullable(),
+    dripDays: z.number().int().positive().nullable(),
+  })
+  .refine((lesson) => lesson.publishAt == null || lesson.status === "private", {
+    message: "Only private lessons can be scheduled.",
+    path: ["publishAt"],
+  });
+
+export type LessonSchemaType = z.infer<typeof lessonSchema>;
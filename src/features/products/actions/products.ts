@@ -0,0 +1,115 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@/services/clerk";
+import { can } from "@/permissions/policy";
+import { formatPlural } from "@/lib/formatter";
+import { toCents } from "@/lib/money";
+import {
+  deleteProductDB,
+  getProductDeleteBlockers,
+  insertProduct,
+  updateProductArchivedAtDB,
+  updateProductDB,
+} from "../db/products";
+import { productSchema, ProductSchemaType } from "../schemas/products";
+
+export async function createProduct(unsafeData: ProductSchemaType) {
+  const { success, data } = productSchema.safeParse(unsafeData);
+
+  if (!success || !(await can(await getCurrentUser(), "create", "product"))) {
+    return {
+      error: true,
+      message: "There was an error creating your product",
+    };
+  }
+
+  await insertProduct(toProductData(data));
+  redirect("/admin/products");
+}
+
+export async function updateProduct(id: string, unsafeData: ProductSchemaType) {
+  const { success, data } = productSchema.safeParse(unsafeData);
+
+  if (!success || !(await can(await getCurrentUser(), "update", "product"))) {
+    return {
+      error: true,
+      message: "There was an error updating your product",
+    };
+  }
+
+  await updateProductDB(id, toProductData(data));
+  redirect("/admin/products");
+}
+
+export async function deleteProduct(id: string) {
+  if (!(await can(await getCurrentUser(), "delete", "product"))) {
+    return {
+      error: true,
+      message: "You do not have permission to delete this product",
+    };
+  }
+
+  const { purchasesCount, subscriptionsCount } =
+    await getProductDeleteBlockers(id);
+  const blockers = [
+    purchasesCount > 0 &&
+      formatPlural(purchasesCount, {
+        singular: "purchase",
+        plural: "purchases",
+      }),
+    subscriptionsCount > 0 &&
+      formatPlural(subscriptionsCount, {
+        singular: "subscription",
+        plural: "subscriptions",
+      }),
+  ].filter((blocker) => blocker !== false);
+
+  if (blockers.length > 0) {
+    return {
+      error: true,
+      message: `This product cannot be deleted because it has ${blockers.join(" and ")}. Archive it instead.`,
+    };
+  }
+
+  await deleteProductDB(id);
+  return {
+    error: false,
+    message: "Product deleted successfully",
+  };
+}
+
+export async function archiveProduct(id: string) {
+  if (!(await can(await getCurrentUser(), "update", "product"))) {
+    return {
+      error: true,
+      message: "You do not have permission to archive this product",
+    };
+  }
+
+  await updateProductArchivedAtDB(id, new Date());
+  return { error: false, message: "Product archived successfully" };
+}
+
+export async function unarchiveProduct(id: string) {
+  if (!(await can(await getCurrentUser(), "update", "product"))) {
+    return {
+      error: true,
+      message: "You do not have permission to unarchive this product",
+    };
+  }
+
+  await updateProductArchivedAtDB(id, null);
+  return { error: false, message: "Product unarchived successfully" };
+}
+
+function toProductData({ price, prices, ...data }: ProductSchemaType) {
+  return {
+    ...data,
+    priceInCents: toCents(price),
+    prices: prices.map(({ currency, price }) => ({
+      currency,
+      priceInCents: toCents(price),
+    })),
+  };
+}
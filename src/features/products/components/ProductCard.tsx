@@ -0,0 +1,103 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Currency, SubscriptionInterval } from "@/drizzle/schema";
+import { formatPlural, formatSubscriptionInterval } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import Image from "next/image";
+import Link from "next/link";
+
+const ProductCard = ({
+  product,
+  isOwned,
+}: {
+  product: {
+    id: string;
+    name: string;
+    description: string;
+    imageUrl: string;
+    priceInCents: number;
+    currency: Currency;
+    subscriptionInterval: SubscriptionInterval | null;
+    courses: {
+      id: string;
+      name: string;
+      sectionsCount: number;
+      lessonsCount: number;
+    }[];
+  };
+  isOwned: boolean;
+}) => {
+  return (
+    <Card className="overflow-hidden pt-0">
+      <Link href={`/products/${product.id}`}>
+        <Image
+          className="object-cover w-full aspect-video"
+          src={product.imageUrl}
+          alt={product.name}
+          width={640}
+          height={360}
+          unoptimized
+        />
+      </Link>
+      <CardHeader>
+        <div className="flex gap-2 items-center justify-between">
+          <div className="text-lg font-semibold">
+            {formatMoney(product.priceInCents, product.currency)}
+            {product.subscriptionInterval != null && (
+              <span className="text-sm font-normal text-muted-foreground">
+                {" "}
+                {formatSubscriptionInterval(product.subscriptionInterval)}
+              </span>
+            )}
+          </div>
+          {isOwned && <Badge>Owned</Badge>}
+        </div>
+        <CardTitle className="text-xl">
+          <Link href={`/products/${product.id}`} className="hover:underline">
+            {product.name}
+          </Link>
+        </CardTitle>
+        <CardDescription className="line-clamp-3">
+          {product.description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-1 text-sm">
+        {product.courses.map((course) => (
+          <div key={course.id} className="flex gap-2 justify-between">
+            <div className="font-medium">{course.name}</div>
+            <div className="text-muted-foreground shrink-0">
+              {formatPlural(course.sectionsCount, {
+                singular: "section",
+                plural: "sections",
+              })}{" "}
+              •{" "}
+              {formatPlural(course.lessonsCount, {
+                singular: "lesson",
+                plural: "lessons",
+              })}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      <CardFooter className="mt-auto">
+        <Button asChild className="w-full">
+          {isOwned ? (
+            <Link href="/courses">Go to My Courses</Link>
+          ) : (
+            <Link href={`/products/${product.id}`}>View Details</Link>
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ProductCard;
@@ -0,0 +1,429 @@
+"use client";
+
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import RequiredLabelIcon from "@/components/RequiredLabelIcon";
+import { MultiSelect } from "@/components/MultiSelect";
+import { useFieldArray, useForm } from "react-hook-form";
+import { toast } from "sonner";
+import {
+  currencies,
+  Currency,
+  ProductStatus,
+  productStatuses,
+  SubscriptionInterval,
+  subscriptionIntervals,
+} from "@/drizzle/schema";
+import { productSchema, ProductSchemaType } from "../schemas/products";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createProduct, updateProduct } from "../actions/products";
+import { PlusIcon, Trash2Icon } from "lucide-react";
+
+const ProductForm = ({
+  product,
+  courses,
+}: {
+  product?: {
+    id: string;
+    name: string;
+    description: string;
+    price: number;
+    currency: Currency;
+    prices: { currency: Currency; price: number }[];
+    accessDurationMonths: number | null;
+    subscriptionInterval: SubscriptionInterval | null;
+    allowsUpgradeCredit: boolean;
+    imageUrl: string;
+    status: ProductStatus;
+    courseIds: string[];
+  };
+  courses: { id: string; name: string }[];
+}) => {
+  const form = useForm<ProductSchemaType>({
+    resolver: zodResolver(productSchema),
+    defaultValues: {
+      name: product?.name ?? "",
+      description: product?.description ?? "",
+      courseIds: product?.courseIds ?? [],
+      imageUrl: product?.imageUrl ?? "",
+      price: product?.price ?? 0,
+      currency: product?.currency ?? "usd",
+      prices: product?.prices ?? [],
+      accessDurationMonths: product?.accessDurationMonths ?? null,
+      subscriptionInterval: product?.subscriptionInterval ?? null,
+      allowsUpgradeCredit: product?.allowsUpgradeCredit ?? false,
+      status: product?.status ?? "private",
+    },
+  });
+
+  const prices = useFieldArray({ control: form.control, name: "prices" });
+
+  async function onSubmit(values: ProductSchemaType) {
+    const action = product
+      ? updateProduct.bind(null, product.id)
+      : createProduct;
+
+    const data = await action(values);
+    if (data?.error) toast.error(data.message);
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="flex gap-6 flex-col"
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-start">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  Name
+                  <RequiredLabelIcon />
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="Name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  Price
+                  <RequiredLabelIcon />
+                </FormLabel>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      step={0.01}
+                      min={0}
+                      onChange={(e) =>
+                        field.onChange(
+                          isNaN(e.target.valueAsNumber)
+                            ? ""
+                            : e.target.valueAsNumber
+                        )
+                      }
+                    />
+                  </FormControl>
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <CurrencySelect
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    )}
+                  />
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="subscriptionInterval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Billing</FormLabel>
+                <Select
+                  onValueChange={(value) =>
+                    field.onChange(value === "oneTime" ? null : value)
+                  }
+                  defaultValue={field.value ?? "oneTime"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="oneTime">One-time</SelectItem>
+                    {subscriptionIntervals.map((interval) => (
+                      <SelectItem key={interval} value={interval}>
+                        Every {interval}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="accessDurationMonths"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Access Duration (months)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    placeholder="Lifetime"
+                    {...field}
+                    value={field.value ?? ""}
+                    step={1}
+                    min={1}
+                    onChange={(e) =>
+                      field.onChange(
+                        isNaN(e.target.valueAsNumber)
+                          ? null
+                          : e.target.valueAsNumber
+                      )
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="imageUrl"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  Image Url
+                  <RequiredLabelIcon />
+                </FormLabel>
+                <FormControl>
+                  <Input placeholder="https://..." {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a status" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {productStatuses.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="prices"
+          render={() => (
+            <FormItem>
+              <FormLabel>Prices in Other Currencies</FormLabel>
+              {prices.fields.map((price, index) => (
+                <div key={price.id} className="flex gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`prices.${index}.price`}
+                    render={({ field }) => (
+                      <FormControl>
+                        <Input
+                          type="number"
+                          className="w-48"
+                          {...field}
+                          step={0.01}
+                          min={0}
+                          onChange={(e) =>
+                            field.onChange(
+                              isNaN(e.target.valueAsNumber)
+                                ? ""
+                                : e.target.valueAsNumber
+                            )
+                          }
+                        />
+                      </FormControl>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`prices.${index}.currency`}
+                    render={({ field }) => (
+                      <CurrencySelect
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => prices.remove(index)}
+                  >
+                    <Trash2Icon />
+                    <span className="sr-only">Remove price</span>
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                className="self-start"
+                onClick={() =>
+                  prices.append({
+                    currency:
+                      currencies.find(
+                        (currency) =>
+                          currency !== form.getValues("currency") &&
+                          !form
+                            .getValues("prices")
+                            .some((price) => price.currency === currency)
+                      ) ?? "usd",
+                    price: 0,
+                  })
+                }
+              >
+                <PlusIcon />
+                Add Price
+              </Button>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="courseIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                Included Courses
+                <RequiredLabelIcon />
+              </FormLabel>
+              <FormControl>
+                <MultiSelect
+                  selectPlaceholder="Select courses"
+                  noResultsMessage="No courses found"
+                  options={courses}
+                  getLabel={(course) => course.name}
+                  getValue={(course) => course.id}
+                  selectedValues={field.value}
+                  onSelectedValuesChange={field.onChange}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="allowsUpgradeCredit"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex items-center gap-2">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked === true)
+                    }
+                  />
+                </FormControl>
+                <FormLabel>
+                  Allow upgrade credit (buyers who already own included courses
+                  pay only the difference)
+                </FormLabel>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                Description
+                <RequiredLabelIcon />
+              </FormLabel>
+              <FormControl>
+                <Textarea
+                  className="min-h-20 resize-none"
+                  placeholder="Description"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="self-end">
+          <Button disabled={form.formState.isSubmitting} type="submit">
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ProductForm;
+
+function CurrencySelect({
+  value,
+  onChange,
+}: {
+  value: Currency;
+  onChange: (value: Currency) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-24">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map((currency) => (
+          <SelectItem key={currency} value={currency}>
+            {currency.toUpperCase()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
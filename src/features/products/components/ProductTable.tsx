@@ -0,0 +1,140 @@
+import { ActionButton } from "@/components/ActionButton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Currency, ProductStatus } from "@/drizzle/schema";
+import { formatPlural } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import {
+  ArchiveIcon,
+  ArchiveRestoreIcon,
+  EyeIcon,
+  LockIcon,
+  Trash2Icon,
+} from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import {
+  archiveProduct,
+  deleteProduct,
+  unarchiveProduct,
+} from "../actions/products";
+
+type Product = {
+  id: string;
+  name: string;
+  description: string;
+  imageUrl: string;
+  priceInCents: number;
+  currency: Currency;
+  status: ProductStatus;
+  archivedAt: Date | null;
+  coursesCount: number;
+};
+
+const ProductTable = ({ products }: { products: Product[] }) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>
+            {formatPlural(products.length, {
+              singular: "product",
+              plural: "products",
+            })}
+          </TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {products.map((product) => (
+          <TableRow key={product.id}>
+            <TableCell>
+              <div className="flex items-center gap-4">
+                <Image
+                  className="object-cover rounded size-12"
+                  src={product.imageUrl}
+                  alt={product.name}
+                  width={192}
+                  height={192}
+                  unoptimized
+                />
+                <div className="flex flex-col gap-1">
+                  <div className="font-semibold">{product.name}</div>
+                  <div className="text-muted-foreground">
+                    {formatPlural(product.coursesCount, {
+                      singular: "course",
+                      plural: "courses",
+                    })}{" "}
+                    • {formatMoney(product.priceInCents, product.currency)}
+                  </div>
+                </div>
+              </div>
+            </TableCell>
+            <TableCell>
+              <div className="flex gap-2">
+                <Badge className="inline-flex items-center gap-2">
+                  {getStatusIcon(product.status)} {product.status}
+                </Badge>
+                {product.archivedAt != null && (
+                  <Badge variant="outline">Archived</Badge>
+                )}
+              </div>
+            </TableCell>
+            <TableCell>
+              <div className="flex gap-2">
+                <Button asChild>
+                  <Link href={`/admin/products/${product.id}/edit`}>Edit</Link>
+                </Button>
+                {product.archivedAt == null ? (
+                  <ActionButton
+                    variant="outline"
+                    action={archiveProduct.bind(null, product.id)}
+                  >
+                    <ArchiveIcon />
+                    <span className="sr-only">Archive</span>
+                  </ActionButton>
+                ) : (
+                  <ActionButton
+                    variant="outline"
+                    action={unarchiveProduct.bind(null, product.id)}
+                  >
+                    <ArchiveRestoreIcon />
+                    <span className="sr-only">Unarchive</span>
+                  </ActionButton>
+                )}
+                <ActionButton
+                  variant="destructive"
+                  requireAreYouSure
+                  action={deleteProduct.bind(null, product.id)}
+                >
+                  <Trash2Icon />
+                  <span className="sr-only">Delete</span>
+                </ActionButton>
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ProductTable;
+
+function getStatusIcon(status: ProductStatus) {
+  const Icon = {
+    public: EyeIcon,
+    private: LockIcon,
+  }[status];
+
+  return <Icon className="size-4" />;
+}
@@ -0,0 +1,389 @@
+import { db } from "@/drizzle/db";
+import {
+  CourseProductTable,
+  Currency,
+  ProductPriceTable,
+  ProductTable,
+  PurchaseTable,
+  SubscriptionTable,
+} from "@/drizzle/schema";
+import { isAccessActive } from "@/features/courses/lib/accessExpiry";
+import { getPurchaseUserTag } from "@/features/purchases/db/cache";
+import { getOwnedPurchasesWhere } from "@/features/purchases/lib/ownedPurchases";
+import { getOpenSubscriptionProductIds } from "@/features/subscriptions/db/subscriptions";
+import { getProductGlobalTag, revalidateProductCache } from "./cache";
+import { and, count, eq, inArray, isNull, ne } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+
+type ProductPrice = { currency: Currency; priceInCents: number };
+
+export async function insertProduct(
+  data: typeof ProductTable.$inferInsert & {
+    courseIds: string[];
+    prices: ProductPrice[];
+  }
+) {
+  const { courseIds, prices, ...productData } = data;
+
+  const newProduct = await db.transaction(async (trx) => {
+    const [newProduct] = await trx
+      .insert(ProductTable)
+      .values(productData)
+      .returning();
+
+    if (!newProduct) return trx.rollback();
+
+    await trx.insert(CourseProductTable).values(
+      courseIds.map((courseId) => ({
+        productId: newProduct.id,
+        courseId,
+      }))
+    );
+
+    if (prices.length > 0) {
+      await trx
+        .insert(ProductPriceTable)
+        .values(
+          prices.map((price) => ({ ...price, productId: newProduct.id }))
+        );
+    }
+
+    return newProduct;
+  });
+
+  if (!newProduct) throw new Error("Failed to create product");
+
+  revalidateProductCache(newProduct.id);
+
+  return newProduct;
+}
+
+export async function updateProductDB(
+  id: string,
+  data: Partial<typeof ProductTable.$inferInsert> & {
+    courseIds: string[];
+    prices: ProductPrice[];
+  }
+) {
+  const { courseIds, prices, ...productData } = data;
+
+  // Course links and currency prices are replaced wholesale so the product
+  // always matches what was submitted in the form.
+  const updatedProduct = await db.transaction(async (trx) => {
+    const [updatedProduct] = await trx
+      .update(ProductTable)
+      .set(productData)
+      .where(eq(ProductTable.id, id))
+      .returning();
+
+    if (!updatedProduct) return trx.rollback();
+
+    await trx
+      .delete(CourseProductTable)
+      .where(eq(CourseProductTable.productId, updatedProduct.id));
+
+    await trx.insert(CourseProductTable).values(
+      courseIds.map((courseId) => ({
+        productId: updatedProduct.id,
+        courseId,
+      }))
+    );
+
+    await trx
+      .delete(ProductPriceTable)
+      .where(eq(ProductPriceTable.productId, updatedProduct.id));
+
+    if (prices.length > 0) {
+      await trx
+        .insert(ProductPriceTable)
+        .values(
+          prices.map((price) => ({ ...price, productId: updatedProduct.id }))
+        );
+    }
+
+    return updatedProduct;
+  });
+
+  if (!updatedProduct) throw new Error("Failed to update product");
+
+  revalidateProductCache(updatedProduct.id);
+
+  return updatedProduct;
+}
+
+export async function updateProductArchivedAtDB(
+  id: string,
+  archivedAt: Date | null
+) {
+  const [updatedProduct] = await db
+    .update(ProductTable)
+    .set({ archivedAt })
+    .where(eq(ProductTable.id, id))
+    .returning();
+
+  if (!updatedProduct) throw new Error("Failed to update product");
+
+  revalidateProductCache(updatedProduct.id);
+
+  return updatedProduct;
+}
+
+// Purchases and subscriptions keep their product for receipts and billing,
+// so products that were ever sold can only be archived.
+export async function getProductDeleteBlockers(id: string) {
+  const [[purchases], [subscriptions]] = await Promise.all([
+    db
+      .select({ count: count() })
+      .from(PurchaseTable)
+      .where(eq(PurchaseTable.productId, id)),
+    db
+      .select({ count: count() })
+      .from(SubscriptionTable)
+      .where(eq(SubscriptionTable.productId, id)),
+  ]);
+
+  return {
+    purchasesCount: purchases?.count ?? 0,
+    subscriptionsCount: subscriptions?.count ?? 0,
+  };
+}
+
+export async function deleteProductDB(id: string) {
+  const [deletedProduct] = await db
+    .delete(ProductTable)
+    .where(eq(ProductTable.id, id))
+    .returning();
+
+  if (!deletedProduct) throw new Error("Failed to delete product");
+
+  revalidateProductCache(deletedProduct.id);
+
+  return deletedProduct;
+}
+
+// A purchase of a time-limited product stops counting once its access
+// expires, so the product can be bought again to renew it. Subscriptions
+// count until they are canceled.
+export async function userOwnsProduct({
+  userId,
+  productId,
+}: {
+  userId: string;
+  productId: string;
+}) {
+  const [purchases, subscriptionProductIds] = await Promise.all([
+    getUserProductPurchases({ userId, productId }),
+    getOpenSubscriptionProductIds(userId),
+  ]);
+
+  return (
+    subscriptionProductIds.includes(productId) ||
+    purchases.some(({ accessExpiresAt }) => isAccessActive(accessExpiresAt))
+  );
+}
+
+// Upgrade credit is what the user paid for other products whose courses are
+// all part of this bundle, in the currency being charged. Only purchases
+// that still grant access and were never credited before count, and the
+// credit never exceeds the price.
+export async function getUpgradeCreditInCents({
+  userId,
+  productId,
+  priceInCents,
+  currency,
+}: {
+  userId: string;
+  productId: string;
+  priceInCents: number;
+  currency: Currency;
+}) {
+  const { bundle, purchases } = await getUpgradeCreditPurchases({
+    userId,
+    productId,
+    currency,
+  });
+
+  return Math.min(
+    getCreditInCents(getCreditablePurchases(bundle, purchases)),
+    priceInCents
+  );
+}
+
+// Marks the purchases credited toward a bundle purchase so they are never
+// credited again. Returns false when they no longer add up to the credit
+// given at checkout, because they were credited to another bundle or
+// refunded in the meantime.
+export async function claimUpgradeCreditDB(
+  {
+    userId,
+    productId,
+    currency,
+    creditInCents,
+    purchaseId,
+  }: {
+    userId: string;
+    productId: string;
+    currency: Currency;
+    creditInCents: number;
+    purchaseId: string;
+  },
+  trx: Omit<typeof db, "$client">
+) {
+  // Locked so concurrent checkouts cannot both claim the same purchases.
+  await trx
+    .select({ id: PurchaseTable.id })
+    .from(PurchaseTable)
+    .where(getUpgradeCreditPurchasesWhere({ userId, productId, currency }))
+    .for("update");
+
+  const { bundle, purchases } = await findUpgradeCreditPurchases(
+    { userId, productId, currency },
+    trx
+  );
+  const creditablePurchases = getCreditablePurchases(bundle, purchases);
+  if (getCreditInCents(creditablePurchases) < creditInCents) return false;
+
+  await trx
+    .update(PurchaseTable)
+    .set({ creditedByPurchaseId: purchaseId })
+    .where(
+      inArray(
+        PurchaseTable.id,
+        creditablePurchases.map(({ id }) => id)
+      )
+    );
+
+  return true;
+}
+
+type UpgradeCreditPurchases = Awaited<
+  ReturnType<typeof findUpgradeCreditPurchases>
+>;
+
+function getCreditablePurchases(
+  bundle: UpgradeCreditPurchases["bundle"],
+  purchases: UpgradeCreditPurchases["purchases"]
+) {
+  if (
+    bundle == null ||
+    !bundle.allowsUpgradeCredit ||
+    bundle.subscriptionInterval != null
+  ) {
+    return [];
+  }
+
+  const bundleCourseIds = new Set(
+    bundle.courseProducts.map(({ courseId }) => courseId)
+  );
+
+  return purchases.filter(
+    ({ accessExpiresAt, product }) =>
+      isAccessActive(accessExpiresAt) &&
+      product.courseProducts.length > 0 &&
+      product.courseProducts.every(({ courseId }) =>
+        bundleCourseIds.has(courseId)
+      )
+  );
+}
+
+function getCreditInCents(
+  purchases: { pricePaidInCents: number; refundedAmountInCents: number }[]
+) {
+  return purchases.reduce(
+    (total, purchase) =>
+      total + purchase.pricePaidInCents - purchase.refundedAmountInCents,
+    0
+  );
+}
+
+async function getUpgradeCreditPurchases({
+  userId,
+  productId,
+  currency,
+}: {
+  userId: string;
+  productId: string;
+  currency: Currency;
+}) {
+  "use cache";
+  cacheTag(getPurchaseUserTag(userId), getProductGlobalTag());
+
+  return findUpgradeCreditPurchases({ userId, productId, currency });
+}
+
+async function findUpgradeCreditPurchases(
+  {
+    userId,
+    productId,
+    currency,
+  }: {
+    userId: string;
+    productId: string;
+    currency: Currency;
+  },
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const [bundle, purchases] = await Promise.all([
+    trx.query.ProductTable.findFirst({
+      columns: { allowsUpgradeCredit: true, subscriptionInterval: true },
+      where: eq(ProductTable.id, productId),
+      with: { courseProducts: { columns: { courseId: true } } },
+    }),
+    trx.query.PurchaseTable.findMany({
+      columns: {
+        id: true,
+        pricePaidInCents: true,
+        refundedAmountInCents: true,
+        accessExpiresAt: true,
+      },
+      where: getUpgradeCreditPurchasesWhere({ userId, productId, currency }),
+      with: {
+        product: {
+          columns: {},
+          with: { courseProducts: { columns: { courseId: true } } },
+        },
+      },
+    }),
+  ]);
+
+  return { bundle, purchases };
+}
+
+function getUpgradeCreditPurchasesWhere({
+  userId,
+  productId,
+  currency,
+}: {
+  userId: string;
+  productId: string;
+  currency: Currency;
+}) {
+  return and(
+    eq(PurchaseTable.userId, userId),
+    isNull(PurchaseTable.giftCode),
+    isNull(PurchaseTable.refundedAt),
+    isNull(PurchaseTable.creditedByPurchaseId),
+    eq(PurchaseTable.currency, currency),
+    ne(PurchaseTable.productId, productId)
+  );
+}
+
+async function getUserProductPurchases({
+  userId,
+  productId,
+}: {
+  userId: string;
+  productId: string;
+}) {
+  "use cache";
+  cacheTag(getPurchaseUserTag(userId));
+
+  return db.query.PurchaseTable.findMany({
+    columns: { accessExpiresAt: true },
+    where: and(
+      eq(PurchaseTable.productId, productId),
+      getOwnedPurchasesWhere(userId),
+      isNull(PurchaseTable.refundedAt)
+    ),
+  });
+}
@@ -0,0 +1,24 @@
+import { db } from "@/drizzle/db";
+import {
+  CourseProductTable,
+  CourseTable,
+  ProductTable,
+} from "@/drizzle/schema";
+import { and, eq, isNotNull, isNull, notInArray } from "drizzle-orm";
+
+// Products are sold while public and not archived, and only as long as none
+// of their courses has been archived either.
+export function getCatalogProductWhere() {
+  return and(
+    eq(ProductTable.status, "public"),
+    isNull(ProductTable.archivedAt),
+    notInArray(
+      ProductTable.id,
+      db
+        .select({ productId: CourseProductTable.productId })
+        .from(CourseProductTable)
+        .innerJoin(CourseTable, eq(CourseTable.id, CourseProductTable.courseId))
+        .where(isNotNull(CourseTable.archivedAt))
+    )
+  );
+}
@@ -0,0 +1,28 @@
+import { Currency } from "@/drizzle/schema";
+
+type PricedProduct = {
+  priceInCents: number;
+  currency: Currency;
+  prices: { currency: Currency; priceInCents: number }[];
+};
+
+// Falls back to the product's own price when there is no override for the
+// requested currency.
+export function getProductPrice(
+  product: PricedProduct,
+  currency?: Currency | null
+) {
+  const override = product.prices.find((price) => price.currency === currency);
+  if (override != null) return override;
+
+  return { priceInCents: product.priceInCents, currency: product.currency };
+}
+
+export function getProductCurrencies(product: PricedProduct) {
+  return [
+    product.currency,
+    ...product.prices
+      .map(({ currency }) => currency)
+      .filter((currency) => currency !== product.currency),
+  ];
+}
@@ -0,0 +1,76 @@
+import {
+  currencies,
+  productStatuses,
+  subscriptionIntervals,
+} from "@/drizzle/schema";
+import { z } from "zod";
+
+export const productSchema = z
+  .object({
+    name: z.string().min(1, {
+      message: "Name is required.",
+    }),
+    description: z.string().min(1, {
+      message: "Description is required.",
+    }),
+    imageUrl: z.union([
+      z.url({ message: "Invalid url." }),
+      z.string().startsWith("/", { message: "Invalid url." }),
+    ]),
+    // Prices are entered in whole units of their currency, not cents.
+    price: z.number().nonnegative(),
+    currency: z.enum(currencies),
+    prices: z.array(
+      z.object({
+        currency: z.enum(currencies),
+        price: z.number().nonnegative(),
+      })
+    ),
+    // Left empty for lifetime access.
+    accessDurationMonths: z
+      .number()
+      .int()
+      .positive({ message: "Duration must be at least 1 month." })
+      .nullable(),
+    // Left empty for products that are sold once.
+    subscriptionInterval: z.enum(subscriptionIntervals).nullable(),
+    allowsUpgradeCredit: z.boolean(),
+    status: z.enum(productStatuses),
+    courseIds: z.array(z.string()).min(1, {
+      message: "At least one course is required.",
+    }),
+  })
+  .refine(
+    (product) => {
+      const priceCurrencies = product.prices.map(({ currency }) => currency);
+      return (
+        !priceCurrencies.includes(product.currency) &&
+        new Set(priceCurrencies).size === priceCurrencies.length
+      );
+    },
+    {
+      message: "Each currency can only have one price.",
+      path: ["prices"],
+    }
+  )
+  // Credits only carry over between one-time purchases.
+  .refine(
+    (product) =>
+      product.subscriptionInterval == null || !product.allowsUpgradeCredit,
+    {
+      message: "Subscriptions cannot allow upgrade credit.",
+      path: ["allowsUpgradeCredit"],
+    }
+  )
+  // Subscription access lasts as long as the subscription is paid for.
+  .refine(
+    (product) =>
+      product.subscriptionInterval == null ||
+      product.accessDurationMonths == null,
+    {
+      message: "Subscriptions cannot have an access duration.",
+      path: ["accessDurationMonths"],
+    }
+  );
+
+export type ProductSchemaType = z.infer<typeof productSchema>;
@@ -0,0 +1,155 @@
+"use server";
+
+import { env } from "@/data/env/client";
+import { db } from "@/drizzle/db";
+import { Currency, ProductTable } from "@/drizzle/schema";
+import { getRedeemableCoupon } from "@/features/coupons/db/coupons";
+import {
+  getUpgradeCreditInCents,
+  userOwnsProduct,
+} from "@/features/products/db/products";
+import { getProductPrice } from "@/features/products/lib/pricing";
+import { getCatalogProductWhere } from "@/features/products/lib/catalog";
+import {
+  CHECKOUT_SESSION_ID_PLACEHOLDER,
+  getPaymentProvider,
+} from "@/services/payments";
+import { getCurrentUser } from "@/services/clerk";
+import { withDeferredRevalidation } from "@/lib/dataCache";
+import { formatMoney } from "@/lib/money";
+import { randomUUID } from "crypto";
+import { and, eq } from "drizzle-orm";
+import { redirect } from "next/navigation";
+import { insertPurchase } from "../db/purchases";
+
+export async function createCheckoutSession(
+  productId: string,
+  currency: Currency,
+  { couponCode, isGift = false }: { couponCode?: string; isGift?: boolean } = {}
+) {
+  const { userId, user, redirectToSignIn } = await getCurrentUser({
+    allData: true,
+  });
+  if (userId == null || user == null) return redirectToSignIn();
+
+  const product = await db.query.ProductTable.findFirst({
+    columns: {
+      id: true,
+      name: true,
+      description: true,
+      imageUrl: true,
+      priceInCents: true,
+      currency: true,
+      subscriptionInterval: true,
+    },
+    where: and(eq(ProductTable.id, productId), getCatalogProductWhere()),
+    with: { prices: { columns: { currency: true, priceInCents: true } } },
+  });
+
+  if (!product) {
+    return { error: true, message: "This product is not available" };
+  }
+
+  // Buying a product as a gift is allowed even when the buyer owns it.
+  if (isGift) {
+    if (product.subscriptionInterval != null) {
+      return {
+        error: true,
+        message: "Subscriptions cannot be bought as a gift",
+      };
+    }
+  } else if (await userOwnsProduct({ userId, productId })) {
+    return { error: true, message: "You already own this product" };
+  }
+
+  const price = getProductPrice(product, currency);
+  // The credit comes from the buyer's own purchases, so gifts pay in full.
+  const upgradeCreditInCents = isGift
+    ? 0
+    : await getUpgradeCreditInCents({ userId, productId, ...price });
+
+  let coupon = null;
+  if (couponCode) {
+    if (product.subscriptionInterval != null) {
+      return {
+        error: true,
+        message: "Coupons cannot be used for subscriptions",
+      };
+    }
+
+    const result = await getRedeemableCoupon({
+      code: couponCode,
+      productId,
+      userId,
+      currency: price.currency,
+      priceInCents: price.priceInCents - upgradeCreditInCents,
+    });
+    if (result.error) return result;
+
+    coupon = { id: result.coupon.id, discountInCents: result.discountInCents };
+  }
+
+  const totalInCents =
+    price.priceInCents - upgradeCreditInCents - (coupon?.discountInCents ?? 0);
+
+  // Providers cannot charge nothing, so free orders are recorded right away.
+  if (totalInCents === 0 && product.subscriptionInterval == null) {
+    const purchase = await withDeferredRevalidation(() =>
+      insertPurchase({
+        userId,
+        productId,
+        pricePaidInCents: 0,
+        currency: price.currency,
+        stripeSessionId: `free_${randomUUID()}`,
+        couponId: coupon?.id ?? null,
+        discountInCents: coupon?.discountInCents ?? 0,
+        upgradeCreditInCents,
+        isGift,
+      })
+    );
+
+    if (purchase == null) {
+      return { error: true, message: "There was an error placing your order" };
+    }
+    if (purchase.refundedAt != null) {
+      return {
+        error: true,
+        message: "Your coupon or upgrade credit can no longer be used",
+      };
+    }
+
+    redirect(
+      isGift
+        ? `/purchases/${purchase.id}`
+        : `/products/${product.id}/purchase/success`
+    );
+  }
+
+  const provider = getPaymentProvider();
+  const minimumChargeInCents = provider.getMinimumChargeInCents(price.currency);
+  if (totalInCents > 0 && totalInCents < minimumChargeInCents) {
+    return {
+      error: true,
+      message: `The total must be 0 or at least ${formatMoney(minimumChargeInCents, price.currency)}`,
+    };
+  }
+
+  const session = await provider.createCheckoutSession({
+    product: {
+      id: product.id,
+      name: product.name,
+      description: product.description,
+      imageUrl: product.imageUrl,
+      ...price,
+      subscriptionInterval: product.subscriptionInterval,
+    },
+    user: { id: userId, email: user.email },
+    coupon,
+    upgradeCreditInCents,
+    isGift,
+    successUrl: `${env.NEXT_PUBLIC_SERVER_URL}/api/payments/success?sessionId=${CHECKOUT_SESSION_ID_PLACEHOLDER}`,
+    cancelUrl: `${env.NEXT_PUBLIC_SERVER_URL}/products/${product.id}/purchase?currency=${price.currency}`,
+  });
+
+  redirect(session.url);
+}
@@ -0,0 +1,32 @@
+"use server";
+
+import { getCurrentUser } from "@/services/clerk";
+import { redirect } from "next/navigation";
+import { redeemGiftDB } from "../db/purchases";
+import {
+  giftRedemptionSchema,
+  GiftRedemptionSchemaType,
+} from "../schemas/purchases";
+
+export async function redeemGift(unsafeData: GiftRedemptionSchemaType) {
+  const { success, data } = giftRedemptionSchema.safeParse(unsafeData);
+  const { userId } = await getCurrentUser();
+
+  if (!success || userId == null) {
+    return { error: true, message: "There was an error redeeming your gift" };
+  }
+
+  const redeemedPurchase = await redeemGiftDB({
+    giftCode: data.code,
+    userId,
+  });
+
+  if (redeemedPurchase == null) {
+    return {
+      error: true,
+      message: "This gift code is invalid or has already been redeemed",
+    };
+  }
+
+  redirect("/courses");
+}
@@ -0,0 +1,97 @@
+"use server";
+
+import { db } from "@/drizzle/db";
+import { PurchaseTable } from "@/drizzle/schema";
+import { getPaymentProvider } from "@/services/payments";
+import { getCurrentUser } from "@/services/clerk";
+import { eq } from "drizzle-orm";
+import { refundPurchaseDB } from "../db/purchases";
+import { can } from "@/permissions/policy";
+import { withDeferredRevalidation } from "@/lib/dataCache";
+import { formatMoney, toCents } from "@/lib/money";
+import { refundSchema, RefundSchemaType } from "../schemas/purchases";
+
+export async function refundPurchase(id: string, unsafeData: RefundSchemaType) {
+  const { success, data } = refundSchema.safeParse(unsafeData);
+
+  if (!success || !(await can(await getCurrentUser(), "refund", "purchase"))) {
+    return {
+      error: true,
+      message: "There was an error refunding this purchase",
+    };
+  }
+
+  // The purchase stays locked until the refund is recorded, so concurrent
+  // refunds take turns and never pay back more than what is left.
+  return withDeferredRevalidation(() =>
+    db.transaction(async (trx) => {
+      const [purchase] = await trx
+        .select({
+          pricePaidInCents: PurchaseTable.pricePaidInCents,
+          refundedAmountInCents: PurchaseTable.refundedAmountInCents,
+          currency: PurchaseTable.currency,
+          stripeSessionId: PurchaseTable.stripeSessionId,
+          refundedAt: PurchaseTable.refundedAt,
+          creditedByPurchaseId: PurchaseTable.creditedByPurchaseId,
+        })
+        .from(PurchaseTable)
+        .where(eq(PurchaseTable.id, id))
+        .for("update");
+
+      if (purchase == null || purchase.refundedAt != null) {
+        return {
+          error: true,
+          message: "This purchase can no longer be refunded",
+        };
+      }
+
+      // The bundle it was credited to was priced with it, so the bundle has
+      // to be refunded first.
+      if (purchase.creditedByPurchaseId != null) {
+        return {
+          error: true,
+          message:
+            "This purchase was credited toward an upgrade, refund the upgrade first",
+        };
+      }
+
+      const remainingInCents =
+        purchase.pricePaidInCents - purchase.refundedAmountInCents;
+      const amountInCents =
+        data.amount == null ? remainingInCents : toCents(data.amount);
+
+      if (amountInCents > remainingInCents) {
+        return {
+          error: true,
+          message: `You cannot refund more than the ${formatMoney(remainingInCents, purchase.currency)} left`,
+        };
+      }
+
+      // Free orders never went through the payment provider.
+      try {
+        if (amountInCents > 0) {
+          await getPaymentProvider().refundCheckoutSession(
+            purchase.stripeSessionId,
+            amountInCents
+          );
+        }
+      } catch (error) {
+        console.error("Error refunding purchase:", error);
+        return {
+          error: true,
+          message: "The payment provider could not refund this purchase",
+        };
+      }
+
+      await refundPurchaseDB(
+        { id },
+        {
+          refundedAmountInCents: purchase.refundedAmountInCents + amountInCents,
+        },
+        trx
+      );
+
+      return { error: false, message: "Successfully refunded this purchase" };
+    })
+  );
+}
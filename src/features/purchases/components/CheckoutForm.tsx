@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { ActionButton } from "@/components/ActionButton";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { previewCoupon } from "@/features/coupons/actions/coupons";
+import { Currency } from "@/drizzle/schema";
+import { formatSubscriptionInterval } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import { XIcon } from "lucide-react";
+import { toast } from "sonner";
+import { createCheckoutSession } from "../actions/checkout";
+
+const CheckoutForm = ({
+  product,
+  price,
+  upgradeCreditInCents = 0,
+  giftOnly = false,
+}: {
+  product: {
+    id: string;
+    subscriptionInterval: "month" | "year" | null;
+  };
+  price: { priceInCents: number; currency: Currency };
+  upgradeCreditInCents?: number;
+  giftOnly?: boolean;
+}) => {
+  const [code, setCode] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<{
+    code: string;
+    discountInCents: number;
+  } | null>(null);
+  const [isGift, setIsGift] = useState(giftOnly);
+  const [isApplying, startTransition] = useTransition();
+  // The buyer's upgrade credit does not apply to gifts.
+  const creditInCents = isGift ? 0 : upgradeCreditInCents;
+
+  function applyCoupon() {
+    startTransition(async () => {
+      const data = await previewCoupon(
+        product.id,
+        price.currency,
+        code,
+        isGift
+      );
+      if (data.error) {
+        toast.error(data.message);
+        return;
+      }
+
+      setAppliedCoupon({
+        code: data.code,
+        discountInCents: data.discountInCents,
+      });
+      setCode("");
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-xl font-semibold">
+          {(appliedCoupon != null || creditInCents > 0) && (
+            <span className="text-base font-normal text-muted-foreground line-through mr-2">
+              {formatMoney(price.priceInCents, price.currency)}
+            </span>
+          )}
+          {formatMoney(
+            price.priceInCents -
+              creditInCents -
+              (appliedCoupon?.discountInCents ?? 0),
+            price.currency
+          )}
+          {product.subscriptionInterval != null && (
+            <span className="text-sm font-normal text-muted-foreground">
+              {" "}
+              {formatSubscriptionInterval(product.subscriptionInterval)}
+            </span>
+          )}
+        </div>
+        <ActionButton
+          action={createCheckoutSession.bind(null, product.id, price.currency, {
+            couponCode: appliedCoupon?.code,
+            isGift,
+          })}
+        >
+          Checkout
+        </ActionButton>
+      </div>
+      {creditInCents > 0 && (
+        <div className="text-sm text-muted-foreground">
+          Includes an upgrade credit of{" "}
+          {formatMoney(creditInCents, price.currency)} for courses you already
+          own
+        </div>
+      )}
+      {product.subscriptionInterval == null && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="isGift"
+            checked={isGift}
+            disabled={giftOnly}
+            onCheckedChange={(checked) => {
+              setIsGift(checked === true);
+              // Coupon discounts depend on the credit, so they are re-applied.
+              setAppliedCoupon(null);
+            }}
+          />
+          <Label htmlFor="isGift">
+            {giftOnly
+              ? "You already own this product, you can buy it as a gift"
+              : "Buy as a gift (you will get a code to share with the recipient)"}
+          </Label>
+        </div>
+      )}
+      {product.subscriptionInterval == null &&
+        price.priceInCents - creditInCents > 0 &&
+        (appliedCoupon == null ? (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyCoupon();
+            }}
+          >
+            <Input
+              placeholder="Coupon code"
+              className="uppercase"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={isApplying || code.trim() === ""}
+            >
+              Apply
+            </Button>
+          </form>
+        ) : (
+          <div className="flex items-center gap-2 text-sm">
+            <span>
+              Coupon <span className="font-mono">{appliedCoupon.code}</span>{" "}
+              saves you{" "}
+              {formatMoney(appliedCoupon.discountInCents, price.currency)}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setAppliedCoupon(null)}
+            >
+              <XIcon />
+              <span className="sr-only">Remove coupon</span>
+            </Button>
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default CheckoutForm;
@@ -0,0 +1,177 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DialogTrigger } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Currency } from "@/drizzle/schema";
+import { formatDate, formatPlural } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import Image from "next/image";
+import { RefundPurchaseDialog } from "./RefundPurchaseDialog";
+
+type Purchase = {
+  id: string;
+  pricePaidInCents: number;
+  currency: Currency;
+  refundedAmountInCents: number;
+  refundedAt: Date | null;
+  createdAt: Date;
+  productDetails: { name: string; imageUrl: string };
+  user: { name: string; email: string };
+  isGift: boolean;
+  giftRedeemedAt: Date | null;
+  giftRedeemedBy: { name: string; email: string } | null;
+};
+
+const PurchaseTable = ({
+  purchases,
+  totalCount = purchases.length,
+  canRefund = false,
+}: {
+  purchases: Purchase[];
+  totalCount?: number;
+  canRefund?: boolean;
+}) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>
+            {formatPlural(totalCount, {
+              singular: "sale",
+              plural: "sales",
+            })}
+          </TableHead>
+          <TableHead>Customer Name</TableHead>
+          <TableHead>Amount</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {purchases.map((purchase) => (
+          <TableRow key={purchase.id}>
+            <TableCell>
+              <div className="flex items-center gap-4">
+                <Image
+                  className="object-cover rounded size-12"
+                  src={purchase.productDetails.imageUrl}
+                  alt={purchase.productDetails.name}
+                  width={192}
+                  height={192}
+                  unoptimized
+                />
+                <div className="flex flex-col gap-1">
+                  <div className="font-semibold">
+                    {purchase.productDetails.name}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {formatDate(purchase.createdAt)}
+                  </div>
+                </div>
+              </div>
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-col gap-1">
+                <div>{purchase.user.name}</div>
+                <div className="text-muted-foreground">
+                  {purchase.user.email}
+                </div>
+                <GiftStatus purchase={purchase} />
+              </div>
+            </TableCell>
+            <TableCell>
+              <PurchaseAmount purchase={purchase} />
+            </TableCell>
+            <TableCell>
+              {canRefund &&
+                purchase.refundedAt == null &&
+                purchase.pricePaidInCents > 0 && (
+                  <RefundPurchaseDialog
+                    purchase={{
+                      id: purchase.id,
+                      pricePaidInCents: purchase.pricePaidInCents,
+                      refundedAmountInCents: purchase.refundedAmountInCents,
+                      currency: purchase.currency,
+                      productName: purchase.productDetails.name,
+                    }}
+                  >
+                    <DialogTrigger asChild>
+                      <Button variant="destructive">Refund</Button>
+                    </DialogTrigger>
+                  </RefundPurchaseDialog>
+                )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default PurchaseTable;
+
+export function GiftStatus({
+  purchase,
+}: {
+  purchase: {
+    isGift: boolean;
+    giftRedeemedAt: Date | null;
+    giftRedeemedBy: { name: string; email: string } | null;
+  };
+}) {
+  if (!purchase.isGift) return null;
+
+  if (purchase.giftRedeemedAt == null) {
+    return (
+      <Badge variant="outline" className="self-start">
+        Gift not redeemed
+      </Badge>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-1 items-start">
+      <Badge variant="secondary">
+        Gift redeemed {formatDate(purchase.giftRedeemedAt)}
+      </Badge>
+      {purchase.giftRedeemedBy != null && (
+        <div className="text-muted-foreground text-sm">
+          by {purchase.giftRedeemedBy.name} ({purchase.giftRedeemedBy.email})
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function PurchaseAmount({
+  purchase,
+}: {
+  purchase: {
+    pricePaidInCents: number;
+    currency: Currency;
+    refundedAmountInCents: number;
+    refundedAt: Date | null;
+  };
+}) {
+  return (
+    <div className="flex flex-col gap-1 items-start">
+      <div>{formatMoney(purchase.pricePaidInCents, purchase.currency)}</div>
+      {purchase.refundedAt != null ? (
+        <Badge variant="outline">Refunded</Badge>
+      ) : (
+        purchase.refundedAmountInCents > 0 && (
+          <Badge variant="outline">
+            Partially refunded{" "}
+            {formatMoney(purchase.refundedAmountInCents, purchase.currency)}
+          </Badge>
+        )
+      )}
+    </div>
+  );
+}
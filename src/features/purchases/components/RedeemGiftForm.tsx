@@ -0,0 +1,71 @@
+"use client";
+
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import RequiredLabelIcon from "@/components/RequiredLabelIcon";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { redeemGift } from "../actions/gifts";
+import {
+  giftRedemptionSchema,
+  GiftRedemptionSchemaType,
+} from "../schemas/purchases";
+
+const RedeemGiftForm = () => {
+  const form = useForm<GiftRedemptionSchemaType>({
+    resolver: zodResolver(giftRedemptionSchema),
+    defaultValues: { code: "" },
+  });
+
+  async function onSubmit(values: GiftRedemptionSchemaType) {
+    const data = await redeemGift(values);
+    if (data?.error) toast.error(data.message);
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="flex gap-6 flex-col"
+      >
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                Gift Code
+                <RequiredLabelIcon />
+              </FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="XXXX-XXXX-XXXX"
+                  className="font-mono uppercase"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="self-end">
+          <Button disabled={form.formState.isSubmitting} type="submit">
+            Redeem
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default RedeemGiftForm;
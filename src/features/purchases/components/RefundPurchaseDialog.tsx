@@ -0,0 +1,46 @@
+"use client";
+
+import {
+  Dialog,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogContent,
+} from "@/components/ui/dialog";
+import { ReactNode, useState } from "react";
+import { Currency } from "@/drizzle/schema";
+import RefundPurchaseForm from "./RefundPurchaseForm";
+
+export function RefundPurchaseDialog({
+  purchase,
+  children,
+}: {
+  purchase: {
+    id: string;
+    pricePaidInCents: number;
+    refundedAmountInCents: number;
+    currency: Currency;
+    productName: string;
+  };
+  children: ReactNode;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      {children}
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund {purchase.productName}</DialogTitle>
+          <DialogDescription>This action cannot be undone.</DialogDescription>
+        </DialogHeader>
+        <div className="mt-4">
+          <RefundPurchaseForm
+            purchase={purchase}
+            onSuccess={() => setIsOpen(false)}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Currency } from "@/drizzle/schema";
+import { formatMoney, fromCents } from "@/lib/money";
+import { refundSchema, RefundSchemaType } from "../schemas/purchases";
+import { refundPurchase } from "../actions/purchases";
+
+const RefundPurchaseForm = ({
+  purchase,
+  onSuccess,
+}: {
+  purchase: {
+    id: string;
+    pricePaidInCents: number;
+    refundedAmountInCents: number;
+    currency: Currency;
+  };
+  onSuccess?: () => void;
+}) => {
+  const remainingInCents =
+    purchase.pricePaidInCents - purchase.refundedAmountInCents;
+
+  const form = useForm<RefundSchemaType>({
+    resolver: zodResolver(refundSchema),
+    defaultValues: { amount: undefined },
+  });
+
+  async function onSubmit(values: RefundSchemaType) {
+    const data = await refundPurchase(purchase.id, values);
+
+    if (data.error) {
+      toast.error(data.message);
+    } else {
+      toast.success(data.message);
+      onSuccess?.();
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="flex gap-6 flex-col"
+      >
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Amount ({purchase.currency.toUpperCase()})</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step={0.01}
+                  min={0}
+                  max={fromCents(remainingInCents)}
+                  placeholder={fromCents(remainingInCents).toFixed(2)}
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) =>
+                    field.onChange(
+                      isNaN(e.target.valueAsNumber)
+                        ? undefined
+                        : e.target.valueAsNumber
+                    )
+                  }
+                />
+              </FormControl>
+              <FormDescription>
+                Leave empty to refund the remaining{" "}
+                {formatMoney(remainingInCents, purchase.currency)}. Access to
+                the included courses is removed once the full price has been
+                refunded.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="self-end">
+          <Button
+            variant="destructive"
+            disabled={form.formState.isSubmitting}
+            type="submit"
+          >
+            Refund
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default RefundPurchaseForm;
@@ -0,0 +1,66 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatMoney } from "@/lib/money";
+
+const RevenueByCouponTable = ({
+  revenue,
+  currency,
+}: {
+  currency: string;
+  revenue: {
+    couponId: string;
+    couponCode: string;
+    salesCount: number;
+    discountInCents: number;
+    netRevenueInCents: number;
+  }[];
+}) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Coupon</TableHead>
+          <TableHead>Sales</TableHead>
+          <TableHead>Discounts</TableHead>
+          <TableHead>Net Revenue</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {revenue.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={4} className="text-muted-foreground">
+              No coupon sales
+            </TableCell>
+          </TableRow>
+        ) : (
+          revenue.map((coupon) => (
+            <TableRow key={coupon.couponId}>
+              <TableCell className="font-semibold font-mono">
+                {coupon.couponCode}
+              </TableCell>
+              <TableCell>{coupon.salesCount}</TableCell>
+              <TableCell>
+                {formatMoney(coupon.discountInCents, currency, {
+                  showZeroAsNumber: true,
+                })}
+              </TableCell>
+              <TableCell>
+                {formatMoney(coupon.netRevenueInCents, currency, {
+                  showZeroAsNumber: true,
+                })}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default RevenueByCouponTable;
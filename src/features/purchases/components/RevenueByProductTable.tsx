@@ -0,0 +1,59 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatMoney } from "@/lib/money";
+
+const RevenueByProductTable = ({
+  revenue,
+  currency,
+}: {
+  currency: string;
+  revenue: {
+    productId: string;
+    productName: string;
+    salesCount: number;
+    netRevenueInCents: number;
+  }[];
+}) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Product</TableHead>
+          <TableHead>Sales</TableHead>
+          <TableHead>Net Revenue</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {revenue.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={3} className="text-muted-foreground">
+              No sales
+            </TableCell>
+          </TableRow>
+        ) : (
+          revenue.map((product) => (
+            <TableRow key={product.productId}>
+              <TableCell className="font-semibold">
+                {product.productName}
+              </TableCell>
+              <TableCell>{product.salesCount}</TableCell>
+              <TableCell>
+                {formatMoney(product.netRevenueInCents, currency, {
+                  showZeroAsNumber: true,
+                })}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default RevenueByProductTable;
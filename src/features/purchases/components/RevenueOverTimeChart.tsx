@@ -0,0 +1,57 @@
+import { formatMoney } from "@/lib/money";
+import { RevenueInterval } from "../db/sales";
+
+const RevenueOverTimeChart = ({
+  interval,
+  revenue,
+  currency,
+}: {
+  currency: string;
+  interval: RevenueInterval;
+  revenue: { period: string; salesCount: number; netRevenueInCents: number }[];
+}) => {
+  if (revenue.length === 0) {
+    return <div className="text-muted-foreground text-sm">No sales</div>;
+  }
+
+  const maxRevenueInCents = Math.max(
+    ...revenue.map((row) => row.netRevenueInCents),
+    1
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      {revenue.map((row) => (
+        <div key={row.period} className="flex items-center gap-4 text-sm">
+          <div className="w-24 shrink-0 text-muted-foreground">
+            {formatPeriod(row.period, interval)}
+          </div>
+          <div className="flex-grow">
+            <div
+              className="h-4 rounded-sm bg-primary"
+              style={{
+                width: `${(Math.max(row.netRevenueInCents, 0) / maxRevenueInCents) * 100}%`,
+              }}
+            />
+          </div>
+          <div className="w-24 shrink-0 text-right">
+            {formatMoney(row.netRevenueInCents, currency, {
+              showZeroAsNumber: true,
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RevenueOverTimeChart;
+
+function formatPeriod(period: string, interval: RevenueInterval) {
+  return new Intl.DateTimeFormat(undefined, {
+    year: "numeric",
+    month: "short",
+    day: interval === "day" ? "numeric" : undefined,
+    timeZone: "UTC",
+  }).format(new Date(period));
+}
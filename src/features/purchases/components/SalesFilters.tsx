@@ -0,0 +1,86 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { currencies } from "@/drizzle/schema";
+import Link from "next/link";
+import { SalesFilterSchemaType } from "../schemas/purchases";
+
+// A plain GET form, so every filter combination is a shareable url that the
+// CSV export can reuse as is.
+const SalesFilters = ({
+  filters,
+  products,
+}: {
+  filters: SalesFilterSchemaType;
+  products: { id: string; name: string }[];
+}) => {
+  return (
+    <form className="flex flex-wrap gap-4 items-end">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="from">From</Label>
+        <Input id="from" name="from" type="date" defaultValue={filters.from} />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="to">To</Label>
+        <Input id="to" name="to" type="date" defaultValue={filters.to} />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label>Product</Label>
+        <Select name="productId" defaultValue={filters.productId ?? "all"}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All products</SelectItem>
+            {products.map((product) => (
+              <SelectItem key={product.id} value={product.id}>
+                {product.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label>Refunds</Label>
+        <Select name="refunded" defaultValue={filters.refunded}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All sales</SelectItem>
+            <SelectItem value="refunded">Refunded</SelectItem>
+            <SelectItem value="notRefunded">Not refunded</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label>Currency</Label>
+        <Select name="currency" defaultValue={filters.currency}>
+          <SelectTrigger className="w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {currencies.map((currency) => (
+              <SelectItem key={currency} value={currency}>
+                {currency.toUpperCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button type="submit">Filter</Button>
+      <Button variant="outline" asChild>
+        <Link href="/admin/sales">Reset</Link>
+      </Button>
+    </form>
+  );
+};
+
+export default SalesFilters;
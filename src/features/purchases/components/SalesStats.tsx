@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatMoney } from "@/lib/money";
+
+const SalesStats = ({
+  totals,
+  currency,
+}: {
+  currency: string;
+  totals: {
+    salesCount: number;
+    grossRevenueInCents: number;
+    refundedInCents: number;
+    netRevenueInCents: number;
+  };
+}) => {
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+      <StatCard
+        title="Net Revenue"
+        value={formatMoney(totals.netRevenueInCents, currency, {
+          showZeroAsNumber: true,
+        })}
+      />
+      <StatCard
+        title="Gross Revenue"
+        value={formatMoney(totals.grossRevenueInCents, currency, {
+          showZeroAsNumber: true,
+        })}
+      />
+      <StatCard
+        title="Refunded"
+        value={formatMoney(totals.refundedInCents, currency, {
+          showZeroAsNumber: true,
+        })}
+      />
+      <StatCard title="Sales" value={totals.salesCount.toLocaleString()} />
+    </div>
+  );
+};
+
+export default SalesStats;
+
+function StatCard({ title, value }: { title: string; value: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-muted-foreground font-normal">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="text-2xl font-semibold">{value}</CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,30 @@
+import {
+  getGlobalTag,
+  getIdTag,
+  getUserTag,
+  revalidateTag,
+} from "@/lib/dataCache";
+
+export function getPurchaseGlobalTag() {
+  return getGlobalTag("purchases");
+}
+
+export function getPurchaseIdTag(id: string) {
+  return getIdTag("purchases", id);
+}
+
+export function getPurchaseUserTag(userId: string) {
+  return getUserTag("purchases", userId);
+}
+
+export function revalidatePurchaseCache({
+  id,
+  userId,
+}: {
+  id: string;
+  userId: string;
+}) {
+  revalidateTag(getPurchaseGlobalTag());
+  revalidateTag(getPurchaseIdTag(id));
+  revalidateTag(getPurchaseUserTag(userId));
+}
@@ -0,0 +1,157 @@
+import { db } from "@/drizzle/db";
+import {
+  PaymentEventStatus,
+  PaymentEventTable,
+  PurchaseTable,
+} from "@/drizzle/schema";
+import { upsertSubscriptionDB } from "@/features/subscriptions/db/subscriptions";
+import { PaymentEvent } from "@/services/payments";
+import { withDeferredRevalidation } from "@/lib/dataCache";
+import { eq } from "drizzle-orm";
+import { insertPurchase, refundPurchaseDB } from "./purchases";
+
+export type PaymentEventResult = {
+  status: PaymentEventStatus | "duplicate" | "outOfOrder";
+  // Set when the checkout was recorded as refunded because its coupon or
+  // upgrade credit was used up, the payment still has to be given back
+  // through the provider.
+  rejectedSessionId: string | null;
+};
+
+// Applies a verified payment event exactly once. The event is recorded in the
+// same transaction as its side effects, so a redelivery is either rejected as
+// a duplicate or, if the first attempt failed, applied from scratch. Caches
+// are revalidated once the transaction has committed.
+export async function processPaymentEvent(
+  event: PaymentEvent
+): Promise<PaymentEventResult> {
+  return withDeferredRevalidation(() => applyPaymentEvent(event));
+}
+
+async function applyPaymentEvent(
+  event: PaymentEvent
+): Promise<PaymentEventResult> {
+  return db.transaction(async (trx) => {
+    const stripeSessionId = getStripeSessionId(event);
+    let status = getEventStatus(event);
+    let rejectedSessionId: string | null = null;
+
+    // Refunds and disputes can be delivered before the checkout they belong
+    // to. Nothing is recorded so the provider retries them later.
+    if (event.type === "charge.refunded" || event.type === "charge.disputed") {
+      const purchase = await trx.query.PurchaseTable.findFirst({
+        columns: { refundedAt: true },
+        where: eq(PurchaseTable.stripeSessionId, event.sessionId),
+      });
+
+      if (purchase == null) {
+        return { status: "outOfOrder", rejectedSessionId: null };
+      }
+
+      // Refunds issued from the admin sales page come back through here too.
+      if (purchase.refundedAt != null) status = "ignored";
+    }
+
+    const [recordedEvent] = await trx
+      .insert(PaymentEventTable)
+      .values({
+        providerEventId: event.id,
+        type: event.type,
+        stripeSessionId,
+        status,
+        payload: event,
+      })
+      .onConflictDoNothing({ target: PaymentEventTable.providerEventId })
+      .returning();
+
+    if (!recordedEvent) return { status: "duplicate", rejectedSessionId: null };
+    if (status === "ignored") return { status, rejectedSessionId: null };
+
+    switch (event.type) {
+      // Subscription checkouts are recorded through their subscription events.
+      case "checkout.completed": {
+        if (event.session.subscriptionId != null) break;
+
+        const purchase = await insertPurchase(
+          {
+            userId: event.session.userId,
+            productId: event.session.productId,
+            pricePaidInCents: event.session.amountTotalInCents,
+            currency: event.session.currency,
+            stripeSessionId: event.session.id,
+            couponId: event.session.couponId,
+            discountInCents: event.session.discountInCents,
+            upgradeCreditInCents: event.session.upgradeCreditInCents,
+            isGift: event.session.isGift,
+          },
+          trx
+        );
+        if (purchase?.refundedAt != null) {
+          rejectedSessionId = purchase.stripeSessionId;
+        }
+        break;
+      }
+      // The provider sends the total refunded so far, partial or not.
+      case "charge.refunded":
+        await refundPurchaseDB(
+          { stripeSessionId: event.sessionId },
+          { refundedAmountInCents: event.amountRefundedInCents },
+          trx
+        );
+        break;
+      // A dispute pulls the funds back, so it is handled like a full refund.
+      case "charge.disputed":
+        await refundPurchaseDB({ stripeSessionId: event.sessionId }, {}, trx);
+        break;
+      // Subscriptions to products that do not exist here are ignored rather
+      // than failing the webhook, which the provider would retry forever.
+      case "subscription.updated":
+        if ((await upsertSubscriptionDB(event.subscription, trx)) == null) {
+          status = "ignored";
+          await trx
+            .update(PaymentEventTable)
+            .set({ status })
+            .where(eq(PaymentEventTable.id, recordedEvent.id));
+        }
+        break;
+    }
+
+    return { status, rejectedSessionId };
+  });
+}
+
+function getEventStatus(event: PaymentEvent): PaymentEventStatus {
+  switch (event.type) {
+    // Checkouts created outside of our app, such as through payment links,
+    // have no user or product.
+    case "checkout.completed":
+      return event.session.isPaid &&
+        event.session.userId &&
+        event.session.productId
+        ? "processed"
+        : "ignored";
+    case "charge.refunded":
+    case "charge.disputed":
+      return "processed";
+    // Subscriptions created outside of our checkout have no user or product.
+    case "subscription.updated":
+      return event.subscription.userId && event.subscription.productId
+        ? "processed"
+        : "ignored";
+    case "unhandled":
+      return "ignored";
+  }
+}
+
+function getStripeSessionId(event: PaymentEvent) {
+  switch (event.type) {
+    case "checkout.completed":
+      return event.session.id;
+    case "charge.refunded":
+    case "charge.disputed":
+      return event.sessionId;
+    case "subscription.updated":
+    case "unhandled":
+      return null;
+  }
+}
@@ -0,0 +1,334 @@
+import { db } from "@/drizzle/db";
+import { Currency, ProductTable, PurchaseTable } from "@/drizzle/schema";
+import {
+  addUserCourseAccess,
+  revokeUserCourseAccess,
+} from "@/features/courses/db/userCourseAccess";
+import { getAccessExpiresAt } from "@/features/courses/lib/accessExpiry";
+import { canRedeemCouponDB } from "@/features/coupons/db/coupons";
+import { claimUpgradeCreditDB } from "@/features/products/db/products";
+import { createGiftCode } from "../lib/giftCodes";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { getUserIdTag } from "@/features/users/db/cache";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import { withDeferredRevalidation } from "@/lib/dataCache";
+import { getPurchaseIdTag, revalidatePurchaseCache } from "./cache";
+
+// Records a completed checkout and grants access to every course of the
+// product in one transaction, limited to the product's access duration.
+// Gifts get a redeemable code instead, and access is granted on redemption.
+// Returns null when the checkout session was already recorded, so replays
+// never grant access twice. When the coupon ran out or the upgrade credit was
+// used up before the payment came in, the purchase is recorded as refunded
+// without granting anything, and the caller has to pay it back through the
+// payment provider.
+export async function insertPurchase(
+  {
+    userId,
+    productId,
+    pricePaidInCents,
+    currency,
+    stripeSessionId,
+    couponId = null,
+    discountInCents = 0,
+    upgradeCreditInCents = 0,
+    isGift = false,
+  }: {
+    userId: string;
+    productId: string;
+    pricePaidInCents: number;
+    currency: Currency;
+    stripeSessionId: string;
+    couponId?: string | null;
+    discountInCents?: number;
+    upgradeCreditInCents?: number;
+    isGift?: boolean;
+  },
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const newPurchase = await trx.transaction(async (trx) => {
+    const product = await trx.query.ProductTable.findFirst({
+      columns: {
+        name: true,
+        description: true,
+        imageUrl: true,
+        accessDurationMonths: true,
+      },
+      where: eq(ProductTable.id, productId),
+      with: { courseProducts: { columns: { courseId: true } } },
+    });
+
+    if (!product) return trx.rollback();
+
+    // Checked before the purchase exists, so it does not count itself.
+    const isCouponRedeemable =
+      couponId == null || (await canRedeemCouponDB({ couponId, userId }, trx));
+    const accessExpiresAt = isGift
+      ? null
+      : getAccessExpiresAt(product.accessDurationMonths);
+    const [insertedPurchase] = await trx
+      .insert(PurchaseTable)
+      .values({
+        userId,
+        productId,
+        pricePaidInCents,
+        currency,
+        stripeSessionId,
+        accessExpiresAt,
+        couponId,
+        discountInCents,
+        upgradeCreditInCents,
+        giftCode: isGift ? createGiftCode() : null,
+        productDetails: {
+          name: product.name,
+          description: product.description,
+          imageUrl: product.imageUrl,
+        },
+      })
+      .onConflictDoNothing({ target: PurchaseTable.stripeSessionId })
+      .returning();
+
+    if (!insertedPurchase) return null;
+
+    const isRejected =
+      !isCouponRedeemable ||
+      (upgradeCreditInCents > 0 &&
+        !(await claimUpgradeCreditDB(
+          {
+            userId,
+            productId,
+            currency,
+            creditInCents: upgradeCreditInCents,
+            purchaseId: insertedPurchase.id,
+          },
+          trx
+        )));
+
+    const [newPurchase] = await trx
+      .update(PurchaseTable)
+      .set({
+        receiptNumber: sql`nextval('purchase_receipt_numbers')`,
+        ...(isRejected && {
+          refundedAt: new Date(),
+          refundedAmountInCents: pricePaidInCents,
+          accessExpiresAt: null,
+        }),
+      })
+      .where(eq(PurchaseTable.id, insertedPurchase.id))
+      .returning();
+
+    if (!isGift && !isRejected) {
+      await addUserCourseAccess(
+        {
+          userId,
+          courseIds: product.courseProducts.map(({ courseId }) => courseId),
+          expiresAt: accessExpiresAt,
+        },
+        trx
+      );
+    }
+
+    return newPurchase;
+  });
+
+  if (newPurchase) revalidatePurchaseCache(newPurchase);
+
+  return newPurchase;
+}
+
+// Records the total amount refunded so far, the full price when omitted.
+// Partial refunds keep the course access. Once the whole price has been
+// refunded the purchase is marked refunded, the access it granted is revoked
+// and the purchases it was credited with can be credited again. Returns null
+// when the purchase was already fully refunded.
+export async function refundPurchaseDB(
+  where: { id: string } | { stripeSessionId: string },
+  { refundedAmountInCents }: { refundedAmountInCents?: number } = {},
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const refundedPurchase = await trx.transaction(async (trx) => {
+    const [purchase] = await trx
+      .select({
+        id: PurchaseTable.id,
+        pricePaidInCents: PurchaseTable.pricePaidInCents,
+        refundedAmountInCents: PurchaseTable.refundedAmountInCents,
+      })
+      .from(PurchaseTable)
+      .where(
+        and(
+          "id" in where
+            ? eq(PurchaseTable.id, where.id)
+            : eq(PurchaseTable.stripeSessionId, where.stripeSessionId),
+          isNull(PurchaseTable.refundedAt)
+        )
+      )
+      .for("update");
+
+    if (purchase == null) return null;
+
+    // Refund events can arrive out of order, so the amount never goes down.
+    const amount = Math.min(
+      Math.max(
+        refundedAmountInCents ?? purchase.pricePaidInCents,
+        purchase.refundedAmountInCents
+      ),
+      purchase.pricePaidInCents
+    );
+    const isFullRefund = amount === purchase.pricePaidInCents;
+
+    const [refundedPurchase] = await trx
+      .update(PurchaseTable)
+      .set({
+        refundedAt: isFullRefund ? new Date() : null,
+        refundedAmountInCents: amount,
+      })
+      .where(eq(PurchaseTable.id, purchase.id))
+      .returning();
+
+    if (!refundedPurchase) return null;
+    if (!isFullRefund) return refundedPurchase;
+
+    await trx
+      .update(PurchaseTable)
+      .set({ creditedByPurchaseId: null })
+      .where(eq(PurchaseTable.creditedByPurchaseId, refundedPurchase.id));
+
+    // Unredeemed gifts have not granted access to anyone yet.
+    const accessUserId =
+      refundedPurchase.giftCode == null
+        ? refundedPurchase.userId
+        : refundedPurchase.giftRedeemedByUserId;
+    if (accessUserId != null) {
+      await revokeUserCourseAccess(
+        { userId: accessUserId, productId: refundedPurchase.productId },
+        trx
+      );
+    }
+
+    return refundedPurchase;
+  });
+
+  if (refundedPurchase) revalidatePurchaseCache(refundedPurchase);
+  if (refundedPurchase?.giftRedeemedByUserId != null) {
+    revalidatePurchaseCache({
+      id: refundedPurchase.id,
+      userId: refundedPurchase.giftRedeemedByUserId,
+    });
+  }
+
+  return refundedPurchase;
+}
+
+// Grants the gift's courses to the user redeeming it, with any access
+// duration starting from the redemption. Returns null for codes that do not
+// exist, were already redeemed or belong to a refunded purchase. Caches are
+// revalidated once the redemption has committed.
+export async function redeemGiftDB({
+  giftCode,
+  userId,
+}: {
+  giftCode: string;
+  userId: string;
+}) {
+  const redeemedPurchase = await withDeferredRevalidation(() =>
+    db.transaction(async (trx) => {
+      const purchase = await trx.query.PurchaseTable.findFirst({
+        columns: { id: true },
+        where: and(
+          eq(PurchaseTable.giftCode, giftCode),
+          isNull(PurchaseTable.giftRedeemedAt),
+          isNull(PurchaseTable.refundedAt)
+        ),
+        with: {
+          product: {
+            columns: { accessDurationMonths: true },
+            with: { courseProducts: { columns: { courseId: true } } },
+          },
+        },
+      });
+
+      if (purchase == null) return null;
+
+      const accessExpiresAt = getAccessExpiresAt(
+        purchase.product.accessDurationMonths
+      );
+      const [redeemedPurchase] = await trx
+        .update(PurchaseTable)
+        .set({
+          giftRedeemedByUserId: userId,
+          giftRedeemedAt: new Date(),
+          accessExpiresAt,
+        })
+        .where(
+          and(
+            eq(PurchaseTable.id, purchase.id),
+            isNull(PurchaseTable.giftRedeemedAt)
+          )
+        )
+        .returning();
+
+      if (!redeemedPurchase) return null;
+
+      await addUserCourseAccess(
+        {
+          userId,
+          courseIds: purchase.product.courseProducts.map(
+            ({ courseId }) => courseId
+          ),
+          expiresAt: accessExpiresAt,
+        },
+        trx
+      );
+
+      return redeemedPurchase;
+    })
+  );
+
+  if (redeemedPurchase) {
+    revalidatePurchaseCache(redeemedPurchase);
+    revalidatePurchaseCache({ id: redeemedPurchase.id, userId });
+  }
+
+  return redeemedPurchase;
+}
+
+export async function getPurchaseIdBySessionId(stripeSessionId: string) {
+  const purchase = await db.query.PurchaseTable.findFirst({
+    columns: { id: true },
+    where: eq(PurchaseTable.stripeSessionId, stripeSessionId),
+  });
+
+  return purchase?.id;
+}
+
+export async function getPurchase(id: string) {
+  "use cache";
+  cacheTag(getPurchaseIdTag(id));
+
+  const purchase = await db.query.PurchaseTable.findFirst({
+    columns: {
+      id: true,
+      userId: true,
+      receiptNumber: true,
+      pricePaidInCents: true,
+      currency: true,
+      refundedAmountInCents: true,
+      refundedAt: true,
+      accessExpiresAt: true,
+      upgradeCreditInCents: true,
+      giftCode: true,
+      giftRedeemedAt: true,
+      productDetails: true,
+      createdAt: true,
+    },
+    where: eq(PurchaseTable.id, id),
+    with: {
+      user: { columns: { name: true, email: true } },
+      giftRedeemedBy: { columns: { name: true, email: true } },
+    },
+  });
+
+  if (purchase != null) cacheTag(getUserIdTag(purchase.userId));
+
+  return purchase;
+}
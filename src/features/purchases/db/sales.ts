@@ -0,0 +1,222 @@
+import { db } from "@/drizzle/db";
+import {
+  CouponTable,
+  CourseProductTable,
+  ProductTable,
+  PurchaseTable,
+  UserTable,
+} from "@/drizzle/schema";
+import { getCouponGlobalTag } from "@/features/coupons/db/cache";
+import { getProductGlobalTag } from "@/features/products/db/cache";
+import { getUserGlobalTag } from "@/features/users/db/cache";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  sql,
+  sum,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import { SalesFilterSchemaType } from "../schemas/purchases";
+import { getPurchaseGlobalTag } from "./cache";
+
+export const SALES_PAGE_SIZE = 20;
+
+// `courseIds` limits the sales to products that include one of the courses,
+// null meaning every sale.
+type SalesFilters = Omit<SalesFilterSchemaType, "page"> & {
+  courseIds: string[] | null;
+};
+export type RevenueInterval = "day" | "month";
+
+const GiftRecipientTable = alias(UserTable, "gift_recipient");
+
+const netRevenueInCents = sql<number>`${PurchaseTable.pricePaidInCents} - ${PurchaseTable.refundedAmountInCents}`;
+
+export async function getSales(
+  filters: SalesFilters,
+  { page, pageSize = SALES_PAGE_SIZE }: { page?: number; pageSize?: number }
+) {
+  "use cache";
+  cacheTag(
+    getPurchaseGlobalTag(),
+    getProductGlobalTag(),
+    getUserGlobalTag(),
+    getCouponGlobalTag()
+  );
+
+  const query = db
+    .select({
+      id: PurchaseTable.id,
+      pricePaidInCents: PurchaseTable.pricePaidInCents,
+      currency: PurchaseTable.currency,
+      refundedAmountInCents: PurchaseTable.refundedAmountInCents,
+      refundedAt: PurchaseTable.refundedAt,
+      discountInCents: PurchaseTable.discountInCents,
+      upgradeCreditInCents: PurchaseTable.upgradeCreditInCents,
+      couponCode: CouponTable.code,
+      // Only whether it is a gift, unredeemed codes can still be claimed.
+      isGift: sql<boolean>`${PurchaseTable.giftCode} is not null`,
+      giftRedeemedAt: PurchaseTable.giftRedeemedAt,
+      productDetails: PurchaseTable.productDetails,
+      createdAt: PurchaseTable.createdAt,
+      user: { name: UserTable.name, email: UserTable.email },
+      giftRedeemedBy: {
+        name: GiftRecipientTable.name,
+        email: GiftRecipientTable.email,
+      },
+    })
+    .from(PurchaseTable)
+    .innerJoin(UserTable, eq(UserTable.id, PurchaseTable.userId))
+    .leftJoin(CouponTable, eq(CouponTable.id, PurchaseTable.couponId))
+    .leftJoin(
+      GiftRecipientTable,
+      eq(GiftRecipientTable.id, PurchaseTable.giftRedeemedByUserId)
+    )
+    .where(getSalesWhere(filters))
+    .orderBy(desc(PurchaseTable.createdAt))
+    .$dynamic();
+
+  if (page == null) return query;
+
+  return query.limit(pageSize).offset((page - 1) * pageSize);
+}
+
+export async function getSalesTotals(filters: SalesFilters) {
+  "use cache";
+  cacheTag(getPurchaseGlobalTag(), getProductGlobalTag());
+
+  const [totals] = await db
+    .select({
+      salesCount: count(),
+      grossRevenueInCents: sum(PurchaseTable.pricePaidInCents).mapWith(Number),
+      refundedInCents: sum(PurchaseTable.refundedAmountInCents).mapWith(Number),
+      netRevenueInCents: sum(netRevenueInCents).mapWith(Number),
+    })
+    .from(PurchaseTable)
+    .where(getSalesWhere(filters));
+
+  return {
+    salesCount: totals?.salesCount ?? 0,
+    grossRevenueInCents: totals?.grossRevenueInCents ?? 0,
+    refundedInCents: totals?.refundedInCents ?? 0,
+    netRevenueInCents: totals?.netRevenueInCents ?? 0,
+  };
+}
+
+export async function getRevenueByProduct(filters: SalesFilters) {
+  "use cache";
+  cacheTag(getPurchaseGlobalTag(), getProductGlobalTag());
+
+  return db
+    .select({
+      productId: PurchaseTable.productId,
+      productName: ProductTable.name,
+      salesCount: count(),
+      netRevenueInCents: sum(netRevenueInCents).mapWith(Number),
+    })
+    .from(PurchaseTable)
+    .innerJoin(ProductTable, eq(ProductTable.id, PurchaseTable.productId))
+    .where(getSalesWhere(filters))
+    .groupBy(PurchaseTable.productId, ProductTable.name)
+    .orderBy(desc(sum(netRevenueInCents)));
+}
+
+// Only sales that used a coupon are included.
+export async function getRevenueByCoupon(filters: SalesFilters) {
+  "use cache";
+  cacheTag(getPurchaseGlobalTag(), getProductGlobalTag(), getCouponGlobalTag());
+
+  return db
+    .select({
+      couponId: CouponTable.id,
+      couponCode: CouponTable.code,
+      salesCount: count(),
+      discountInCents: sum(PurchaseTable.discountInCents).mapWith(Number),
+      netRevenueInCents: sum(netRevenueInCents).mapWith(Number),
+    })
+    .from(PurchaseTable)
+    .innerJoin(CouponTable, eq(CouponTable.id, PurchaseTable.couponId))
+    .where(getSalesWhere(filters))
+    .groupBy(CouponTable.id, CouponTable.code)
+    .orderBy(desc(sum(netRevenueInCents)));
+}
+
+export async function getRevenueOverTime(filters: SalesFilters) {
+  "use cache";
+  cacheTag(getPurchaseGlobalTag(), getProductGlobalTag());
+
+  const interval = getRevenueInterval(filters);
+  // The interval comes from a fixed set of values, and has to be inlined so
+  // the grouped expression matches the selected one.
+  const period = sql<string>`to_char(date_trunc('${sql.raw(interval)}', ${PurchaseTable.createdAt}), 'YYYY-MM-DD')`;
+
+  const rows = await db
+    .select({
+      period,
+      salesCount: count(),
+      netRevenueInCents: sum(netRevenueInCents).mapWith(Number),
+    })
+    .from(PurchaseTable)
+    .where(getSalesWhere(filters))
+    .groupBy(period)
+    .orderBy(asc(period));
+
+  return { interval, rows };
+}
+
+function getSalesWhere({
+  from,
+  to,
+  productId,
+  refunded,
+  currency,
+  courseIds,
+}: SalesFilters) {
+  return and(
+    eq(PurchaseTable.currency, currency),
+    courseIds != null
+      ? inArray(
+          PurchaseTable.productId,
+          db
+            .select({ productId: CourseProductTable.productId })
+            .from(CourseProductTable)
+            .where(inArray(CourseProductTable.courseId, courseIds))
+        )
+      : undefined,
+    from != null ? gte(PurchaseTable.createdAt, new Date(from)) : undefined,
+    to != null ? lt(PurchaseTable.createdAt, getNextDay(to)) : undefined,
+    productId != null ? eq(PurchaseTable.productId, productId) : undefined,
+    refunded === "refunded"
+      ? isNotNull(PurchaseTable.refundedAt)
+      : refunded === "notRefunded"
+        ? isNull(PurchaseTable.refundedAt)
+        : undefined
+  );
+}
+
+function getRevenueInterval({ from, to }: SalesFilters): RevenueInterval {
+  if (from == null) return "month";
+
+  const days =
+    (getNextDay(to ?? new Date().toISOString()).getTime() -
+      new Date(from).getTime()) /
+    (1000 * 60 * 60 * 24);
+
+  return days <= 62 ? "day" : "month";
+}
+
+// `to` is inclusive, so everything before the start of the next day counts.
+function getNextDay(date: string) {
+  const nextDay = new Date(date.slice(0, 10));
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+  return nextDay;
+}
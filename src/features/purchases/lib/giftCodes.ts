@@ -0,0 +1,16 @@
+import { randomInt } from "crypto";
+
+// Characters that are easy to confuse, like 0 and O, are left out so codes
+// can be typed in from a printed or handwritten card.
+const GIFT_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const GIFT_CODE_GROUPS = 3;
+const GIFT_CODE_GROUP_LENGTH = 4;
+
+export function createGiftCode() {
+  return Array.from({ length: GIFT_CODE_GROUPS }, () =>
+    Array.from(
+      { length: GIFT_CODE_GROUP_LENGTH },
+      () => GIFT_CODE_ALPHABET[randomInt(GIFT_CODE_ALPHABET.length)]
+    ).join("")
+  ).join("-");
+}
@@ -0,0 +1,11 @@
+import { PurchaseTable } from "@/drizzle/schema";
+import { and, eq, isNull, or } from "drizzle-orm";
+
+// A gift belongs to whoever redeemed it rather than to the buyer, so only
+// the buyer's own non-gift purchases grant them access.
+export function getOwnedPurchasesWhere(userId: string) {
+  return or(
+    and(eq(PurchaseTable.userId, userId), isNull(PurchaseTable.giftCode)),
+    eq(PurchaseTable.giftRedeemedByUserId, userId)
+  );
+}
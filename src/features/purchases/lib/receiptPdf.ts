@@ -0,0 +1,100 @@
+import { formatDate, formatReceiptNumber } from "@/lib/formatter";
+import { formatMoney } from "@/lib/money";
+import { PDFDocument, PDFFont, rgb, StandardFonts } from "pdf-lib";
+
+type Receipt = {
+  receiptNumber: number;
+  pricePaidInCents: number;
+  currency: string;
+  refundedAmountInCents: number;
+  createdAt: Date;
+  productDetails: { name: string };
+  user: { name: string; email: string };
+};
+
+const MARGIN = 56;
+const MUTED = rgb(0.45, 0.45, 0.45);
+
+export async function createReceiptPdf(receipt: Receipt) {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const page = pdf.addPage([595, 842]);
+  const { width, height } = page.getSize();
+  const receiptNumber = formatReceiptNumber(receipt.receiptNumber);
+  const formatPaid = (amountInCents: number) =>
+    formatMoney(amountInCents, receipt.currency, { showZeroAsNumber: true });
+
+  pdf.setTitle(`Receipt ${receiptNumber}`);
+
+  let y = height - MARGIN;
+  function drawLine(
+    label: string,
+    value: string,
+    { bold = false, gap = 20 } = {}
+  ) {
+    y -= gap;
+    const valueFont = bold ? boldFont : font;
+    const text = toPdfText(value, valueFont);
+    page.drawText(toPdfText(label, font), {
+      x: MARGIN,
+      y,
+      size: 11,
+      font,
+      color: MUTED,
+    });
+    page.drawText(text, {
+      x: width - MARGIN - valueFont.widthOfTextAtSize(text, 11),
+      y,
+      size: 11,
+      font: valueFont,
+    });
+  }
+
+  page.drawText("Courses Platform", {
+    x: MARGIN,
+    y,
+    size: 12,
+    font,
+    color: MUTED,
+  });
+  y -= 36;
+  page.drawText("Receipt", { x: MARGIN, y, size: 24, font: boldFont });
+
+  drawLine("Receipt number", receiptNumber, { gap: 40 });
+  drawLine("Date", formatDate(receipt.createdAt));
+  drawLine("Billed to", receipt.user.name);
+  drawLine("Email", receipt.user.email);
+
+  drawLine(receipt.productDetails.name, formatPaid(receipt.pricePaidInCents), {
+    gap: 48,
+  });
+  if (receipt.refundedAmountInCents > 0) {
+    drawLine("Refunded", `-${formatPaid(receipt.refundedAmountInCents)}`);
+  }
+
+  y -= 16;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: width - MARGIN, y },
+    thickness: 1,
+    color: MUTED,
+  });
+  drawLine(
+    "Total",
+    formatPaid(receipt.pricePaidInCents - receipt.refundedAmountInCents),
+    { bold: true, gap: 24 }
+  );
+
+  return pdf.save();
+}
+
+// The standard PDF fonts only cover WinAnsi, so anything else (like emoji in
+// a product name) is replaced rather than failing the whole receipt.
+function toPdfText(text: string, font: PDFFont) {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text, (char) => {
+    if (/\s/.test(char)) return " ";
+    return supported.has(char.codePointAt(0) ?? 0) ? char : "?";
+  }).join("");
+}
@@ -0,0 +1,57 @@
+import { currencies } from "@/drizzle/schema";
+import { z } from "zod";
+
+export const refundSchema = z.object({
+  // In the currency of the purchase. Leaving the amount empty refunds
+  // everything that has not been refunded yet.
+  amount: z
+    .number()
+    .positive({ message: "Amount must be greater than 0." })
+    .optional(),
+});
+
+export type RefundSchemaType = z.infer<typeof refundSchema>;
+
+export const giftRedemptionSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, { message: "Gift code is required." })
+    .transform(normalizeGiftCode),
+});
+
+export type GiftRedemptionSchemaType = z.infer<typeof giftRedemptionSchema>;
+
+// Codes are stored as groups of 4 joined by hyphens, see createGiftCode, so
+// they redeem whether they are typed with spaces, hyphens or neither.
+function normalizeGiftCode(code: string) {
+  return (
+    code
+      .replace(/[^A-Za-z0-9]/g, "")
+      .toUpperCase()
+      .match(/.{1,4}/g)
+      ?.join("-") ?? ""
+  );
+}
+
+// Buyers pick the currency on the checkout page, which falls back to the
+// product's own currency.
+export const checkoutSearchParamsSchema = z.object({
+  currency: z.enum(currencies).optional().catch(undefined),
+});
+
+export const salesRefundFilters = ["all", "refunded", "notRefunded"] as const;
+
+// Parsed from the sales page search params, so invalid values fall back to
+// their defaults instead of failing the page.
+export const salesFilterSchema = z.object({
+  from: z.iso.date().optional().catch(undefined),
+  to: z.iso.date().optional().catch(undefined),
+  productId: z.uuid().optional().catch(undefined),
+  refunded: z.enum(salesRefundFilters).default("all").catch("all"),
+  // Revenue is only ever added up within a single currency.
+  currency: z.enum(currencies).default("usd").catch("usd"),
+  page: z.coerce.number().int().positive().default(1).catch(1),
+});
+
+export type SalesFilterSchemaType = z.infer<typeof salesFilterSchema>;
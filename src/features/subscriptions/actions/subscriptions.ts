@@ -0,0 +1,56 @@
+"use server";
+
+import { db } from "@/drizzle/db";
+import { SubscriptionTable } from "@/drizzle/schema";
+import { can } from "@/permissions/policy";
+import { getCurrentUser } from "@/services/clerk";
+import { getPaymentProvider } from "@/services/payments";
+import { eq } from "drizzle-orm";
+import { updateSubscriptionDB } from "../db/subscriptions";
+
+export async function cancelSubscription(id: string) {
+  const subscription = await db.query.SubscriptionTable.findFirst({
+    columns: {
+      userId: true,
+      providerSubscriptionId: true,
+      status: true,
+      cancelAtPeriodEnd: true,
+    },
+    where: eq(SubscriptionTable.id, id),
+  });
+
+  if (
+    subscription == null ||
+    !(await can(await getCurrentUser(), "cancel", {
+      type: "subscription",
+      userId: subscription.userId,
+    }))
+  ) {
+    return {
+      error: true,
+      message: "There was an error canceling this subscription",
+    };
+  }
+
+  if (subscription.status === "canceled" || subscription.cancelAtPeriodEnd) {
+    return { error: true, message: "This subscription is already canceled" };
+  }
+
+  try {
+    await getPaymentProvider().cancelSubscription(
+      subscription.providerSubscriptionId
+    );
+  } catch (error) {
+    console.error("Error canceling subscription:", error);
+    return {
+      error: true,
+      message: "The payment provider could not cancel this subscription",
+    };
+  }
+
+  // The provider's webhook confirms this too, but the learner should see the
+  // change right away.
+  await updateSubscriptionDB(id, { cancelAtPeriodEnd: true });
+
+  return { error: false, message: "Your subscription will not renew" };
+}
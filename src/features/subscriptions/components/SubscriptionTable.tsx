@@ -0,0 +1,91 @@
+import { ActionButton } from "@/components/ActionButton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SubscriptionStatus } from "@/drizzle/schema";
+import { formatDate } from "@/lib/formatter";
+import { cancelSubscription } from "../actions/subscriptions";
+
+const SubscriptionTable = ({
+  subscriptions,
+}: {
+  subscriptions: {
+    id: string;
+    status: SubscriptionStatus;
+    currentPeriodEnd: Date;
+    cancelAtPeriodEnd: boolean;
+    product: { name: string };
+  }[];
+}) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Subscription</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Current Period</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {subscriptions.map((subscription) => (
+          <TableRow key={subscription.id}>
+            <TableCell className="font-semibold">
+              {subscription.product.name}
+            </TableCell>
+            <TableCell>
+              <SubscriptionStatusBadge subscription={subscription} />
+            </TableCell>
+            <TableCell>
+              {subscription.status === "canceled"
+                ? "Ended"
+                : subscription.cancelAtPeriodEnd
+                  ? "Ends"
+                  : "Renews"}{" "}
+              {formatDate(subscription.currentPeriodEnd)}
+            </TableCell>
+            <TableCell>
+              {subscription.status !== "canceled" &&
+                !subscription.cancelAtPeriodEnd && (
+                  <ActionButton
+                    variant="outline"
+                    requireAreYouSure
+                    action={cancelSubscription.bind(null, subscription.id)}
+                  >
+                    Cancel
+                  </ActionButton>
+                )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default SubscriptionTable;
+
+function SubscriptionStatusBadge({
+  subscription,
+}: {
+  subscription: { status: SubscriptionStatus; cancelAtPeriodEnd: boolean };
+}) {
+  switch (subscription.status) {
+    case "active":
+      return subscription.cancelAtPeriodEnd ? (
+        <Badge variant="outline">Canceled</Badge>
+      ) : (
+        <Badge>Active</Badge>
+      );
+    case "pastDue":
+      return <Badge variant="destructive">Payment Failed</Badge>;
+    case "canceled":
+      return <Badge variant="outline">Ended</Badge>;
+  }
+}
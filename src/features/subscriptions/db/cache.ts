@@ -0,0 +1,30 @@
+import {
+  getGlobalTag,
+  getIdTag,
+  getUserTag,
+  revalidateTag,
+} from "@/lib/dataCache";
+
+export function getSubscriptionGlobalTag() {
+  return getGlobalTag("subscriptions");
+}
+
+export function getSubscriptionIdTag(id: string) {
+  return getIdTag("subscriptions", id);
+}
+
+export function getSubscriptionUserTag(userId: string) {
+  return getUserTag("subscriptions", userId);
+}
+
+export function revalidateSubscriptionCache({
+  id,
+  userId,
+}: {
+  id: string;
+  userId: string;
+}) {
+  revalidateTag(getSubscriptionGlobalTag());
+  revalidateTag(getSubscriptionIdTag(id));
+  revalidateTag(getSubscriptionUserTag(userId));
+}
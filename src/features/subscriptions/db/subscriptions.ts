@@ -0,0 +1,103 @@
+import { db } from "@/drizzle/db";
+import { ProductTable, SubscriptionTable } from "@/drizzle/schema";
+import { addUserCourseAccess } from "@/features/courses/db/userCourseAccess";
+import { Subscription } from "@/services/payments";
+import { and, eq, inArray } from "drizzle-orm";
+import { cacheTag } from "next/dist/server/use-cache/cache-tag";
+import { getSubscriptionAccessExpiresAt } from "../lib/accessExpiry";
+import { getSubscriptionUserTag, revalidateSubscriptionCache } from "./cache";
+
+// Mirrors the provider's subscription and, while it is active, extends access
+// to the product's courses until the end of the paid period plus the grace
+// period. Past due and canceled subscriptions are never extended, so their
+// access simply runs out once that time has passed. Returns null when the
+// product does not exist.
+export async function upsertSubscriptionDB(
+  subscription: Subscription,
+  trx: Omit<typeof db, "$client"> = db
+) {
+  const upsertedSubscription = await trx.transaction(async (trx) => {
+    const product = await trx.query.ProductTable.findFirst({
+      columns: { id: true },
+      where: eq(ProductTable.id, subscription.productId),
+      with: { courseProducts: { columns: { courseId: true } } },
+    });
+
+    if (!product) return null;
+
+    const data = {
+      status: subscription.status,
+      currentPeriodEnd: new Date(subscription.currentPeriodEnd),
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+    };
+    const [upsertedSubscription] = await trx
+      .insert(SubscriptionTable)
+      .values({
+        ...data,
+        userId: subscription.userId,
+        productId: product.id,
+        providerSubscriptionId: subscription.id,
+      })
+      .onConflictDoUpdate({
+        target: SubscriptionTable.providerSubscriptionId,
+        set: data,
+      })
+      .returning();
+
+    if (!upsertedSubscription) throw new Error("Failed to save subscription");
+
+    if (upsertedSubscription.status === "active") {
+      await addUserCourseAccess(
+        {
+          userId: upsertedSubscription.userId,
+          courseIds: product.courseProducts.map(({ courseId }) => courseId),
+          expiresAt: getSubscriptionAccessExpiresAt(
+            upsertedSubscription.currentPeriodEnd
+          ),
+        },
+        trx
+      );
+    }
+
+    return upsertedSubscription;
+  });
+
+  if (upsertedSubscription == null) return null;
+
+  revalidateSubscriptionCache(upsertedSubscription);
+
+  return upsertedSubscription;
+}
+
+export async function updateSubscriptionDB(
+  id: string,
+  data: Partial<typeof SubscriptionTable.$inferInsert>
+) {
+  const [updatedSubscription] = await db
+    .update(SubscriptionTable)
+    .set(data)
+    .where(eq(SubscriptionTable.id, id))
+    .returning();
+
+  if (!updatedSubscription) throw new Error("Failed to update subscription");
+
+  revalidateSubscriptionCache(updatedSubscription);
+
+  return updatedSubscription;
+}
+
+// Subscriptions that still renew or may recover from a failed payment.
+export async function getOpenSubscriptionProductIds(userId: string) {
+  "use cache";
+  cacheTag(getSubscriptionUserTag(userId));
+
+  const subscriptions = await db.query.SubscriptionTable.findMany({
+    columns: { productId: true },
+    where: and(
+      eq(SubscriptionTable.userId, userId),
+      inArray(SubscriptionTable.status, ["active", "pastDue"])
+    ),
+  });
+
+  return subscriptions.map(({ productId }) => productId);
+}
@@ -0,0 +1,9 @@
+// How long access outlives the paid period, giving the provider time to
+// retry a failed renewal before the learner is locked out.
+export const SUBSCRIPTION_GRACE_PERIOD_DAYS = 7;
+
+export function getSubscriptionAccessExpiresAt(currentPeriodEnd: Date) {
+  const expiresAt = new Date(currentPeriodEnd);
+  expiresAt.setDate(expiresAt.getDate() + SUBSCRIPTION_GRACE_PERIOD_DAYS);
+  return expiresAt;
+}
@@ -0,0 +1,32 @@
+"use server";
+
+import { can } from "@/permissions/policy";
+import { getCurrentUser, syncClerkUserMetadata } from "@/services/clerk";
+import { isActiveUser, updateUserRoleDB } from "../db/users";
+import { userRoleSchema, UserRoleSchemaType } from "../schemas/users";
+
+export async function updateUserRole(
+  id: string,
+  unsafeData: UserRoleSchemaType
+) {
+  const { success, data } = userRoleSchema.safeParse(unsafeData);
+  const currentUser = await getCurrentUser();
+
+  if (!success || !(await can(currentUser, "update", { type: "user", id }))) {
+    return { error: true, message: "There was an error updating the role" };
+  }
+
+  // Stops admins from locking themselves out of the admin area.
+  if (currentUser.userId === id) {
+    return { error: true, message: "You cannot change your own role" };
+  }
+
+  if (!(await isActiveUser(id))) {
+    return { error: true, message: "This user no longer exists" };
+  }
+
+  const updatedUser = await updateUserRoleDB(id, data.role);
+  await syncClerkUserMetadata(updatedUser);
+
+  return { error: false, message: "Successfully updated the role" };
+}
@@ -0,0 +1,65 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { userRoles } from "@/drizzle/schema";
+import Link from "next/link";
+import { UserFilterSchemaType } from "../schemas/users";
+
+const UserFilters = ({ filters }: { filters: UserFilterSchemaType }) => {
+  return (
+    <form className="flex flex-wrap gap-4 items-end">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="search">Search</Label>
+        <Input
+          id="search"
+          name="search"
+          placeholder="Name or email"
+          className="w-64"
+          defaultValue={filters.search}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label>Role</Label>
+        <Select name="role" defaultValue={filters.role ?? "all"}>
+          <SelectTrigger className="w-40 capitalize">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All roles</SelectItem>
+            {userRoles.map((role) => (
+              <SelectItem key={role} value={role} className="capitalize">
+                {role}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label>Status</Label>
+        <Select name="status" defaultValue={filters.status}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Active</SelectItem>
+            <SelectItem value="deleted">Deleted</SelectItem>
+            <SelectItem value="all">All users</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <Button type="submit">Filter</Button>
+      <Button variant="outline" asChild>
+        <Link href="/admin/users">Reset</Link>
+      </Button>
+    </form>
+  );
+};
+
+export default UserFilters;
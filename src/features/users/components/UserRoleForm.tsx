@@ -0,0 +1,81 @@
+"use client";
+
+import React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserRole, userRoles } from "@/drizzle/schema";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { userRoleSchema, UserRoleSchemaType } from "../schemas/users";
+import { updateUserRole } from "../actions/users";
+
+const UserRoleForm = ({ user }: { user: { id: string; role: UserRole } }) => {
+  const form = useForm<UserRoleSchemaType>({
+    resolver: zodResolver(userRoleSchema),
+    defaultValues: { role: user.role },
+  });
+
+  async function onSubmit(values: UserRoleSchemaType) {
+    const data = await updateUserRole(user.id, values);
+
+    if (data.error) {
+      toast.error(data.message);
+    } else {
+      toast.success(data.message);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="flex gap-4 items-end"
+      >
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Role</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger className="w-48 capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {userRoles.map((role) => (
+                    <SelectItem key={role} value={role} className="capitalize">
+                      {role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button disabled={form.formState.isSubmitting} type="submit">
+          Save
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default UserRoleForm;
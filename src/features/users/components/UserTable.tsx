@@ -0,0 +1,78 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { UserRole } from "@/drizzle/schema";
+import { formatDate, formatPlural } from "@/lib/formatter";
+import Link from "next/link";
+
+type User = {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  deletedAt: Date | null;
+  createdAt: Date;
+  coursesCount: number;
+};
+
+const UserTable = ({
+  users,
+  totalCount = users.length,
+}: {
+  users: User[];
+  totalCount?: number;
+}) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>
+            {formatPlural(totalCount, { singular: "user", plural: "users" })}
+          </TableHead>
+          <TableHead>Role</TableHead>
+          <TableHead>Courses</TableHead>
+          <TableHead>Joined</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {users.map((user) => (
+          <TableRow key={user.id}>
+            <TableCell>
+              <div className="flex flex-col gap-1">
+                <div className="font-semibold">{user.name}</div>
+                <div className="text-muted-foreground">{user.email}</div>
+              </div>
+            </TableCell>
+            <TableCell>
+              <div className="flex gap-2">
+                <Badge variant="outline" className="capitalize">
+                  {user.role}
+                </Badge>
+                {user.deletedAt != null && (
+                  <Badge variant="destructive">Deleted</Badge>
+                )}
+              </div>
+            </TableCell>
+            <TableCell>{user.coursesCount}</TableCell>
+            <TableCell>{formatDate(user.createdAt)}</TableCell>
+            <TableCell>
+              <Button variant="outline" asChild>
+                <Link href={`/admin/users/${user.id}`}>View</Link>
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default UserTable;
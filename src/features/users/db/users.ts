@@ -1,6 +1,6 @@
 import { db } from "@/drizzle/db";
-import { UserTable } from "@/drizzle/schema";
-import { eq } from "drizzle-orm";
+import { UserRole, UserTable } from "@/drizzle/schema";
+import { and, eq, isNull } from "drizzle-orm";
 import { revalidateUserCache } from "./cache";
 
 export async function insertUser(data: typeof UserTable.$inferInsert) {
@@ -58,3 +58,26 @@ export async function deleteUser({ clerkUserId }: { clerkUserId: string }) {
 
   return deletedUser;
 }
+
+export async function isActiveUser(id: string) {
+  const user = await db.query.UserTable.findFirst({
+    columns: { id: true },
+    where: and(eq(UserTable.id, id), isNull(UserTable.deletedAt)),
+  });
+
+  return user != null;
+}
+
+export async function updateUserRoleDB(id: string, role: UserRole) {
+  const [updatedUser] = await db
+    .update(UserTable)
+    .set({ role })
+    .where(and(eq(UserTable.id, id), isNull(UserTable.deletedAt)))
+    .returning();
+
+  if (!updatedUser) throw new Error("Failed to update user role");
+
+  revalidateUserCache(updatedUser.id);
+
+  return updatedUser;
+}
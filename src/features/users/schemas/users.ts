@@ -0,0 +1,21 @@
+import { userRoles } from "@/drizzle/schema";
+import { z } from "zod";
+
+export const userRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export type UserRoleSchemaType = z.infer<typeof userRoleSchema>;
+
+export const userStatusFilters = ["all", "active", "deleted"] as const;
+
+// Parsed from the users page search params, invalid values fall back to the
+// defaults like on the sales page.
+export const userFilterSchema = z.object({
+  search: z.string().trim().optional().catch(undefined),
+  role: z.enum(userRoles).optional().catch(undefined),
+  status: z.enum(userStatusFilters).default("active").catch("active"),
+  page: z.coerce.number().int().positive().default(1).catch(1),
+});
+
+export type UserFilterSchemaType = z.infer<typeof userFilterSchema>;
@@ -0,0 +1,61 @@
+type CsvValue = string | number | null | undefined;
+
+export function toCsv(rows: CsvValue[][]) {
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
+
+// Values that spreadsheets would run as formulas are prefixed with a quote,
+// since exports contain names and emails that users choose themselves.
+function escapeCsvValue(value: CsvValue) {
+  if (value == null) return "";
+
+  const stringValue =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(stringValue)
+    ? `"${stringValue.replaceAll('"', '""')}"`
+    : stringValue;
+}
+
+// Splits CSV text into rows of raw values. Quoted values may contain commas,
+// newlines and doubled quotes, and blank lines are skipped.
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(value);
+      if (row.some((v) => v.trim() !== "")) rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+
+  row.push(value);
+  if (row.some((v) => v.trim() !== "")) rows.push(row);
+
+  return rows;
+}
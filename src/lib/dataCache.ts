@@ -1,11 +1,18 @@
+import { revalidateTag as revalidateNextTag } from "next/cache";
+import { AsyncLocalStorage } from "node:async_hooks";
+
 type CACHE_TAG =
   | "products"
   | "users"
   | "courses"
+  | "coupons"
+  | "courseInstructors"
+  | "courseRevisions"
   | "userCourseAccess"
   | "courseSections"
   | "lessons"
   | "purchases"
+  | "subscriptions"
   | "userLessonComplete";
 
 export function getGlobalTag(tag: CACHE_TAG) {
@@ -23,3 +30,27 @@ export function getUserTag(tag: CACHE_TAG, userId: string) {
 export function getCourseTag(tag: CACHE_TAG, courseId: string) {
   return `course:${courseId}-${tag}` as const;
 }
+
+const deferredTags = new AsyncLocalStorage<Set<string>>();
+
+// Tags revalidated inside withDeferredRevalidation are only revalidated once
+// it resolves, so nothing can re-cache data from a transaction that has not
+// committed yet.
+export function revalidateTag(tag: string) {
+  const tags = deferredTags.getStore();
+  if (tags == null) {
+    revalidateNextTag(tag);
+  } else {
+    tags.add(tag);
+  }
+}
+
+// Wrap a transaction in this when the functions it calls revalidate caches.
+// Tags are dropped if it throws, since nothing was committed.
+export async function withDeferredRevalidation<T>(fn: () => Promise<T>) {
+  const tags = new Set<string>();
+  const result = await deferredTags.run(tags, fn);
+  tags.forEach((tag) => revalidateNextTag(tag));
+
+  return result;
+}
@@ -6,3 +6,24 @@ export function formatPlural(
   const word = count === 1 ? singular : plural;
   return includeCount ? `${count} ${word}` : word;
 }
+
+export function formatDate(date: Date) {
+  return new Intl.DateTimeFormat(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(date);
+}
+
+export function formatReceiptNumber(receiptNumber: number) {
+  return `R-${receiptNumber.toString().padStart(6, "0")}`;
+}
+
+export function formatAccessDuration(months: number | null) {
+  if (months == null) return "Lifetime access";
+
+  return `${formatPlural(months, { singular: "month", plural: "months" })} of access`;
+}
+
+export function formatSubscriptionInterval(interval: "month" | "year") {
+  return interval === "month" ? "per month" : "per year";
+}
@@ -0,0 +1,23 @@
+// Every amount is stored in cents of its currency, and only converted to
+// whole units here and in forms.
+export function formatMoney(
+  amountInCents: number,
+  currency: string,
+  { showZeroAsNumber = false } = {}
+) {
+  if (amountInCents === 0 && !showZeroAsNumber) return "Free";
+
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: currency.toUpperCase(),
+    minimumFractionDigits: amountInCents % 100 === 0 ? 0 : 2,
+  }).format(amountInCents / 100);
+}
+
+export function toCents(amount: number) {
+  return Math.round(amount * 100);
+}
+
+export function fromCents(amountInCents: number) {
+  return amountInCents / 100;
+}
@@ -1,5 +0,0 @@
-import { UserRole } from "@/drizzle/schema";
-
-export function canAccessAdminPages({ role }: { role: UserRole | undefined }) {
-  return role === "admin";
-}
@@ -0,0 +1,209 @@
+import { LessonStatus, UserRole } from "@/drizzle/schema";
+import { getInstructorCourseIds } from "@/features/courses/db/courseInstructors";
+import {
+  getUserCourseAccesses,
+  getUserCourseIds,
+} from "@/features/courses/db/userCourseAccess";
+import { isAccessActive } from "@/features/courses/lib/accessExpiry";
+import {
+  getLessonUnlocksAt,
+  isLessonUnlocked,
+} from "@/features/courses/lib/drip";
+
+export type PolicyUser = {
+  userId?: string | null;
+  role?: UserRole | null;
+};
+
+// Every resource lists the actions that can be checked against it, and the
+// data that rules receive when a specific record is being checked.
+type Resources = {
+  adminPages: { actions: "read"; data: never };
+  coupon: { actions: "list" | "create" | "update" | "delete"; data: never };
+  course: { actions: "create" | "update" | "delete"; data: { id: string } };
+  courseSection: {
+    actions: "create" | "update" | "delete";
+    data: { courseId: string };
+  };
+  lesson: {
+    actions: "create" | "read" | "update" | "delete";
+    data: {
+      courseId: string;
+      status?: LessonStatus;
+      dripDays?: number | null;
+    };
+  };
+  product: { actions: "list" | "create" | "update" | "delete"; data: never };
+  purchase: {
+    actions: "list" | "read" | "refund";
+    data: { userId: string };
+  };
+  subscription: { actions: "cancel"; data: { userId: string } };
+  user: { actions: "list" | "read" | "update"; data: { id: string } };
+  userCourseAccess: {
+    actions: "create" | "delete";
+    data: { courseId: string };
+  };
+};
+
+export type Resource = keyof Resources;
+export type ResourceAction<R extends Resource> = Resources[R]["actions"];
+type ResourceSubject<R extends Resource> = { type: R } & Resources[R]["data"];
+
+// `true` grants the action on every record. Functions decide per record and
+// are called without data when only the resource type is being checked.
+type Rule<R extends Resource> =
+  | true
+  | ((
+      user: PolicyUser,
+      data: Resources[R]["data"] | undefined
+    ) => boolean | Promise<boolean>);
+
+type Policy = {
+  [R in Resource]?: { [A in ResourceAction<R>]?: Rule<R> };
+};
+
+// Drip delays only hold back public lessons, previews are open to everyone.
+async function canViewPublishedLesson(
+  { userId }: PolicyUser,
+  lesson: Resources["lesson"]["data"] | undefined
+) {
+  if (lesson == null) return false;
+  if (lesson.status === "preview") return true;
+  if (lesson.status !== "public" || userId == null) return false;
+
+  const accesses = await getUserCourseAccesses(userId);
+  const access = accesses.find(
+    ({ courseId, expiresAt }) =>
+      courseId === lesson.courseId && isAccessActive(expiresAt)
+  );
+  return (
+    access != null &&
+    isLessonUnlocked(getLessonUnlocksAt(access.createdAt, lesson.dripDays))
+  );
+}
+
+async function isCourseInstructor(
+  userId: string | null | undefined,
+  courseId: string | undefined
+) {
+  if (userId == null || courseId == null) return false;
+
+  const courseIds = await getInstructorCourseIds(userId);
+  return courseIds.includes(courseId);
+}
+
+const instructsCourse = (
+  { userId }: PolicyUser,
+  data: { courseId: string } | undefined
+) => isCourseInstructor(userId, data?.courseId);
+
+const readOwnPurchase: Rule<"purchase"> = ({ userId }, purchase) =>
+  userId != null && purchase?.userId === userId;
+
+const cancelOwnSubscription: Rule<"subscription"> = (
+  { userId },
+  subscription
+) => userId != null && subscription?.userId === userId;
+
+function isSelf({ userId }: PolicyUser, user: { id: string } | undefined) {
+  return userId != null && user?.id === userId;
+}
+
+// A student of an instructor is anyone with access to one of their courses.
+async function isInstructorStudent(
+  { userId }: PolicyUser,
+  user: { id: string } | undefined
+) {
+  if (userId == null || user == null) return false;
+
+  const [instructorCourseIds, studentCourseIds] = await Promise.all([
+    getInstructorCourseIds(userId),
+    getUserCourseIds(user.id),
+  ]);
+  return studentCourseIds.some((courseId) =>
+    instructorCourseIds.includes(courseId)
+  );
+}
+
+const guestPolicy: Policy = {
+  lesson: { read: canViewPublishedLesson },
+};
+
+const policies: Record<UserRole, Policy> = {
+  admin: {
+    adminPages: { read: true },
+    coupon: { list: true, create: true, update: true, delete: true },
+    course: { create: true, update: true, delete: true },
+    courseSection: { create: true, update: true, delete: true },
+    lesson: { create: true, read: true, update: true, delete: true },
+    product: { list: true, create: true, update: true, delete: true },
+    purchase: { list: true, read: true, refund: true },
+    subscription: { cancel: true },
+    user: { list: true, read: true, update: true },
+    userCourseAccess: { create: true, delete: true },
+  },
+  // Instructors manage only the courses they are assigned to. Their sales
+  // and students are scoped by getManagedCourseIds rather than per record.
+  instructor: {
+    adminPages: { read: true },
+    course: {
+      create: true,
+      update: ({ userId }, course) => isCourseInstructor(userId, course?.id),
+      delete: ({ userId }, course) => isCourseInstructor(userId, course?.id),
+    },
+    courseSection: {
+      create: instructsCourse,
+      update: instructsCourse,
+      delete: instructsCourse,
+    },
+    lesson: {
+      create: instructsCourse,
+      read: async (user, lesson) =>
+        (await instructsCourse(user, lesson)) ||
+        canViewPublishedLesson(user, lesson),
+      update: instructsCourse,
+      delete: instructsCourse,
+    },
+    purchase: { list: true, read: readOwnPurchase },
+    subscription: { cancel: cancelOwnSubscription },
+    user: {
+      list: true,
+      read: async (user, student) =>
+        isSelf(user, student) || isInstructorStudent(user, student),
+    },
+  },
+  user: {
+    lesson: { read: canViewPublishedLesson },
+    purchase: { read: readOwnPurchase },
+    subscription: { cancel: cancelOwnSubscription },
+    user: { read: isSelf },
+  },
+};
+
+export async function can<R extends Resource>(
+  user: PolicyUser,
+  action: ResourceAction<R>,
+  resource: R | ResourceSubject<R>
+) {
+  const type: R = typeof resource === "string" ? resource : resource.type;
+  const data = typeof resource === "string" ? undefined : resource;
+  const policy = user.role == null ? guestPolicy : policies[user.role];
+  const rule = (policy[type] as { [A in ResourceAction<R>]?: Rule<R> })?.[
+    action
+  ];
+
+  if (rule == null) return false;
+  if (rule === true) return true;
+
+  return rule(user, data);
+}
+
+// The courses whose admin data (sales, students) the user may see, or null
+// when they are not limited to specific courses.
+export async function getManagedCourseIds({ userId, role }: PolicyUser) {
+  if (role === "admin") return null;
+  if (role !== "instructor" || userId == null) return [];
+
+  return getInstructorCourseIds(userId);
+}
@@ -0,0 +1,18 @@
+import { publishScheduledContentDB } from "@/features/courses/db/scheduledPublishing";
+
+// Background jobs are run by an external scheduler (such as a cron job) that
+// calls /api/jobs/<name> with the CRON_SECRET as a bearer token. Every job must
+// be safe to run again if a previous run failed or overlapped with it.
+const jobs = {
+  "publish-scheduled-content": () => publishScheduledContentDB(),
+} satisfies Record<string, () => Promise<unknown>>;
+
+export type JobName = keyof typeof jobs;
+
+export function isJobName(name: string): name is JobName {
+  return Object.hasOwn(jobs, name);
+}
+
+export function runJob(name: JobName) {
+  return jobs[name]();
+}
@@ -0,0 +1,190 @@
+import { env } from "@/data/env/server";
+import { env as clientEnv } from "@/data/env/client";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import {
+  CHECKOUT_SESSION_ID_PLACEHOLDER,
+  CheckoutSession,
+  PaymentEvent,
+  PaymentProvider,
+  Subscription,
+} from "./types";
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-payments-signature";
+
+type FakeSession = CheckoutSession & {
+  successUrl: string;
+  cancelUrl: string;
+  subscriptionInterval: "month" | "year" | null;
+};
+
+// Sessions only live in memory, so this provider is meant for local
+// development and tests. The store hangs off globalThis so it survives
+// module reloads in dev.
+const globalForFakePayments = globalThis as unknown as {
+  fakeCheckoutSessions?: Map<string, FakeSession>;
+  fakeSubscriptions?: Map<string, Subscription>;
+};
+const sessions = (globalForFakePayments.fakeCheckoutSessions ??= new Map());
+const subscriptions = (globalForFakePayments.fakeSubscriptions ??= new Map());
+
+export function createFakeProvider(): PaymentProvider {
+  if (env.FAKE_PAYMENTS_WEBHOOK_SECRET == null) {
+    throw new Error("Fake payments webhook secret is missing");
+  }
+
+  return {
+    getMinimumChargeInCents() {
+      return 1;
+    },
+
+    async createCheckoutSession({
+      product,
+      user,
+      coupon,
+      upgradeCreditInCents,
+      isGift,
+      successUrl,
+      cancelUrl,
+    }) {
+      const id = `fake_cs_${randomUUID()}`;
+      const url = `${clientEnv.NEXT_PUBLIC_SERVER_URL}/fake-checkout/${id}`;
+
+      sessions.set(id, {
+        id,
+        url,
+        isPaid: false,
+        amountTotalInCents:
+          product.priceInCents -
+          upgradeCreditInCents -
+          (coupon?.discountInCents ?? 0),
+        currency: product.currency,
+        productId: product.id,
+        userId: user.id,
+        subscriptionId: null,
+        couponId: coupon?.id ?? null,
+        discountInCents: coupon?.discountInCents ?? 0,
+        upgradeCreditInCents,
+        isGift,
+        subscriptionInterval: product.subscriptionInterval,
+        successUrl: successUrl.replace(CHECKOUT_SESSION_ID_PLACEHOLDER, id),
+        cancelUrl: cancelUrl.replace(CHECKOUT_SESSION_ID_PLACEHOLDER, id),
+      });
+
+      return { id, url };
+    },
+
+    async getCheckoutSession(id) {
+      const session = sessions.get(id);
+      if (session == null) return null;
+
+      return toCheckoutSession(session);
+    },
+
+    async getSubscription(id) {
+      return subscriptions.get(id) ?? null;
+    },
+
+    async cancelSubscription(id) {
+      const subscription = subscriptions.get(id);
+      if (subscription == null) throw new Error("Subscription not found");
+
+      subscription.cancelAtPeriodEnd = true;
+    },
+
+    async refundCheckoutSession() {
+      // Nothing to pay back, the purchase is refunded in our database only.
+    },
+
+    async verifyWebhook(body, headers) {
+      const signature = headers.get(FAKE_SIGNATURE_HEADER);
+      if (signature == null || !isValidSignature(body, signature)) {
+        throw new Error("Invalid fake payments signature");
+      }
+
+      return JSON.parse(body) as PaymentEvent;
+    },
+  };
+}
+
+export function getFakeCheckoutSession(id: string) {
+  return sessions.get(id);
+}
+
+export function completeFakeCheckoutSession(id: string) {
+  const session = sessions.get(id);
+  if (session == null) return null;
+
+  session.isPaid = true;
+
+  if (session.subscriptionInterval != null && session.subscriptionId == null) {
+    const currentPeriodEnd = new Date();
+    if (session.subscriptionInterval === "year") {
+      currentPeriodEnd.setFullYear(currentPeriodEnd.getFullYear() + 1);
+    } else {
+      currentPeriodEnd.setMonth(currentPeriodEnd.getMonth() + 1);
+    }
+
+    session.subscriptionId = `fake_sub_${randomUUID()}`;
+    subscriptions.set(session.subscriptionId, {
+      id: session.subscriptionId,
+      status: "active",
+      currentPeriodEnd: currentPeriodEnd.toISOString(),
+      cancelAtPeriodEnd: false,
+      productId: session.productId,
+      userId: session.userId,
+    });
+  }
+
+  return session;
+}
+
+export function signFakeWebhookPayload(body: string) {
+  return createHmac("sha256", getWebhookSecret()).update(body).digest("hex");
+}
+
+function isValidSignature(body: string, signature: string) {
+  const expected = Buffer.from(signFakeWebhookPayload(body));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// There is no default secret, otherwise anyone could sign webhooks that grant
+// them purchases.
+function getWebhookSecret() {
+  if (env.FAKE_PAYMENTS_WEBHOOK_SECRET == null) {
+    throw new Error("Fake payments webhook secret is missing");
+  }
+
+  return env.FAKE_PAYMENTS_WEBHOOK_SECRET;
+}
+
+function toCheckoutSession({
+  id,
+  url,
+  isPaid,
+  amountTotalInCents,
+  currency,
+  productId,
+  userId,
+  subscriptionId,
+  couponId,
+  discountInCents,
+  upgradeCreditInCents,
+  isGift,
+}: FakeSession): CheckoutSession {
+  return {
+    id,
+    url,
+    isPaid,
+    amountTotalInCents,
+    currency,
+    productId,
+    userId,
+    subscriptionId,
+    couponId,
+    discountInCents,
+    upgradeCreditInCents,
+    isGift,
+  };
+}
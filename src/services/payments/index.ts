@@ -0,0 +1,18 @@
+import { env } from "@/data/env/server";
+import { createFakeProvider } from "./fake";
+import { createStripeProvider } from "./stripe";
+import { PaymentProvider } from "./types";
+
+export type * from "./types";
+export { CHECKOUT_SESSION_ID_PLACEHOLDER } from "./types";
+
+let provider: PaymentProvider | undefined;
+
+export function getPaymentProvider() {
+  provider ??=
+    env.PAYMENT_PROVIDER === "fake"
+      ? createFakeProvider()
+      : createStripeProvider();
+
+  return provider;
+}
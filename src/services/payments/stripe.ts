@@ -0,0 +1,260 @@
+import { env } from "@/data/env/server";
+import { env as clientEnv } from "@/data/env/client";
+import Stripe from "stripe";
+import { Currency } from "@/drizzle/schema";
+import {
+  CheckoutSession,
+  PaymentEvent,
+  PaymentProvider,
+  Subscription,
+} from "./types";
+
+// https://docs.stripe.com/currencies#minimum-and-maximum-charge-amounts
+const MINIMUM_CHARGE_IN_CENTS: Record<Currency, number> = {
+  usd: 50,
+  eur: 50,
+  gbp: 30,
+  cad: 50,
+  aud: 50,
+};
+
+export function createStripeProvider(): PaymentProvider {
+  if (env.STRIPE_SECRET_KEY == null || env.STRIPE_WEBHOOK_SECRET == null) {
+    throw new Error("Stripe keys are missing");
+  }
+
+  const stripe = new Stripe(env.STRIPE_SECRET_KEY);
+  const webhookSecret = env.STRIPE_WEBHOOK_SECRET;
+
+  async function getSessionIdForPaymentIntent(paymentIntentId: string) {
+    const sessions = await stripe.checkout.sessions.list({
+      payment_intent: paymentIntentId,
+      limit: 1,
+    });
+
+    return sessions.data[0]?.id;
+  }
+
+  return {
+    getMinimumChargeInCents(currency) {
+      return MINIMUM_CHARGE_IN_CENTS[currency];
+    },
+
+    async createCheckoutSession({
+      product,
+      user,
+      coupon,
+      upgradeCreditInCents,
+      isGift,
+      successUrl,
+      cancelUrl,
+    }) {
+      const metadata: Record<string, string> = {
+        productId: product.id,
+        userId: user.id,
+      };
+      // The discount is taken off the price directly instead of through a
+      // Stripe coupon, so coupons only have to be managed here.
+      if (coupon != null) {
+        metadata.couponId = coupon.id;
+        metadata.discountInCents = coupon.discountInCents.toString();
+      }
+      if (upgradeCreditInCents > 0) {
+        metadata.upgradeCreditInCents = upgradeCreditInCents.toString();
+      }
+      if (isGift) metadata.isGift = "true";
+      const isSubscription = product.subscriptionInterval != null;
+      const session = await stripe.checkout.sessions.create({
+        mode: isSubscription ? "subscription" : "payment",
+        line_items: [
+          {
+            quantity: 1,
+            price_data: {
+              currency: product.currency,
+              unit_amount:
+                product.priceInCents -
+                upgradeCreditInCents -
+                (coupon?.discountInCents ?? 0),
+              recurring:
+                product.subscriptionInterval != null
+                  ? { interval: product.subscriptionInterval }
+                  : undefined,
+              product_data: {
+                name: product.name,
+                description: product.description,
+                images: [
+                  new URL(product.imageUrl, clientEnv.NEXT_PUBLIC_SERVER_URL)
+                    .href,
+                ],
+              },
+            },
+          },
+        ],
+        customer_email: user.email,
+        // Subscriptions carry the metadata too so their own events can be
+        // matched to the user and product.
+        ...(isSubscription
+          ? { subscription_data: { metadata } }
+          : { payment_intent_data: { receipt_email: user.email } }),
+        metadata,
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+      });
+
+      if (session.url == null) throw new Error("Failed to create session");
+
+      return { id: session.id, url: session.url };
+    },
+
+    async getCheckoutSession(id) {
+      try {
+        return toCheckoutSession(await stripe.checkout.sessions.retrieve(id));
+      } catch {
+        return null;
+      }
+    },
+
+    async getSubscription(id) {
+      try {
+        return toSubscription(await stripe.subscriptions.retrieve(id));
+      } catch {
+        return null;
+      }
+    },
+
+    async cancelSubscription(id) {
+      await stripe.subscriptions.update(id, { cancel_at_period_end: true });
+    },
+
+    async refundCheckoutSession(id, amountInCents) {
+      const session = await stripe.checkout.sessions.retrieve(id);
+      if (session.payment_intent == null) {
+        throw new Error("Session has no payment to refund");
+      }
+
+      await stripe.refunds.create({
+        payment_intent: getId(session.payment_intent),
+        amount: amountInCents,
+      });
+    },
+
+    async verifyWebhook(body, headers) {
+      const signature = headers.get("stripe-signature");
+      if (signature == null) throw new Error("Missing stripe-signature header");
+
+      const event = stripe.webhooks.constructEvent(
+        body,
+        signature,
+        webhookSecret
+      );
+
+      switch (event.type) {
+        case "checkout.session.completed":
+        case "checkout.session.async_payment_succeeded":
+          return {
+            id: event.id,
+            type: "checkout.completed",
+            session: toCheckoutSession(event.data.object),
+          };
+        case "charge.refunded": {
+          const charge = event.data.object;
+          const sessionId = await getSessionIdForPaymentIntent(
+            getId(charge.payment_intent)
+          );
+          if (sessionId == null) break;
+
+          return {
+            id: event.id,
+            type: "charge.refunded",
+            sessionId,
+            amountRefundedInCents: charge.amount_refunded,
+          };
+        }
+        // The subscription is fetched again since its events can arrive out
+        // of order, and only the latest state should be applied.
+        case "customer.subscription.created":
+        case "customer.subscription.updated":
+        case "customer.subscription.deleted": {
+          const subscription = toSubscription(
+            await stripe.subscriptions.retrieve(event.data.object.id)
+          );
+          if (subscription == null) break;
+
+          return { id: event.id, type: "subscription.updated", subscription };
+        }
+        case "charge.dispute.created": {
+          const sessionId = await getSessionIdForPaymentIntent(
+            getId(event.data.object.payment_intent)
+          );
+          if (sessionId == null) break;
+
+          return { id: event.id, type: "charge.disputed", sessionId };
+        }
+      }
+
+      return { id: event.id, type: "unhandled" } satisfies PaymentEvent;
+    },
+  };
+}
+
+function toCheckoutSession(session: Stripe.Checkout.Session): CheckoutSession {
+  return {
+    id: session.id,
+    url: session.url,
+    isPaid: session.payment_status === "paid",
+    amountTotalInCents: session.amount_total ?? 0,
+    // Sessions are only created in supported currencies.
+    currency: (session.currency ?? "usd") as Currency,
+    productId: session.metadata?.productId ?? "",
+    userId: session.metadata?.userId ?? "",
+    subscriptionId:
+      session.subscription == null ? null : getId(session.subscription),
+    couponId: session.metadata?.couponId || null,
+    discountInCents: Number(session.metadata?.discountInCents ?? 0),
+    upgradeCreditInCents: Number(session.metadata?.upgradeCreditInCents ?? 0),
+    isGift: session.metadata?.isGift === "true",
+  };
+}
+
+// Incomplete subscriptions never had a successful first payment, so they are
+// not mirrored at all.
+function toSubscription(
+  subscription: Stripe.Subscription
+): Subscription | null {
+  const status = getSubscriptionStatus(subscription.status);
+  const currentPeriodEnd = subscription.items.data[0]?.current_period_end;
+  if (status == null || currentPeriodEnd == null) return null;
+
+  return {
+    id: subscription.id,
+    status,
+    currentPeriodEnd: new Date(currentPeriodEnd * 1000).toISOString(),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    productId: subscription.metadata.productId ?? "",
+    userId: subscription.metadata.userId ?? "",
+  };
+}
+
+function getSubscriptionStatus(
+  status: Stripe.Subscription.Status
+): Subscription["status"] | null {
+  switch (status) {
+    case "active":
+    case "trialing":
+      return "active";
+    case "past_due":
+    case "unpaid":
+    case "paused":
+      return "pastDue";
+    case "canceled":
+    case "incomplete_expired":
+      return "canceled";
+    default:
+      return null;
+  }
+}
+
+function getId(value: string | { id: string } | null) {
+  if (value == null) return "";
+  return typeof value === "string" ? value : value.id;
+}
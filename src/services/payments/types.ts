@@ -0,0 +1,80 @@
+import { Currency } from "@/drizzle/schema";
+
+export type CheckoutSession = {
+  id: string;
+  url: string | null;
+  isPaid: boolean;
+  amountTotalInCents: number;
+  currency: Currency;
+  productId: string;
+  userId: string;
+  // Set when the session started a subscription instead of a one-time sale.
+  subscriptionId: string | null;
+  // amountTotalInCents already has the discount and upgrade credit taken off.
+  couponId: string | null;
+  discountInCents: number;
+  upgradeCreditInCents: number;
+  // Gifts are paid by userId but grant access to whoever redeems them.
+  isGift: boolean;
+};
+
+export type Subscription = {
+  id: string;
+  status: "active" | "pastDue" | "canceled";
+  // ISO date string, so events survive being stored and parsed as JSON.
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  productId: string;
+  userId: string;
+};
+
+export type PaymentEvent =
+  | { id: string; type: "checkout.completed"; session: CheckoutSession }
+  | {
+      id: string;
+      type: "charge.refunded";
+      sessionId: string;
+      amountRefundedInCents: number;
+    }
+  | { id: string; type: "charge.disputed"; sessionId: string }
+  | { id: string; type: "subscription.updated"; subscription: Subscription }
+  | { id: string; type: "unhandled" };
+
+export type CreateCheckoutSessionInput = {
+  product: {
+    id: string;
+    name: string;
+    description: string;
+    imageUrl: string;
+    // Already converted to the currency the buyer picked.
+    priceInCents: number;
+    currency: Currency;
+    subscriptionInterval: "month" | "year" | null;
+  };
+  user: { id: string; email: string };
+  coupon: { id: string; discountInCents: number } | null;
+  upgradeCreditInCents: number;
+  isGift: boolean;
+  // Both urls may contain `{CHECKOUT_SESSION_ID}`, which every provider
+  // replaces with the id of the created session.
+  successUrl: string;
+  cancelUrl: string;
+};
+
+export interface PaymentProvider {
+  // Smallest total a checkout can charge, free checkouts aside.
+  getMinimumChargeInCents(currency: Currency): number;
+  createCheckoutSession(
+    input: CreateCheckoutSessionInput
+  ): Promise<{ id: string; url: string }>;
+  getCheckoutSession(id: string): Promise<CheckoutSession | null>;
+  getSubscription(id: string): Promise<Subscription | null>;
+  // Subscriptions stay active until the end of the period already paid for.
+  cancelSubscription(id: string): Promise<void>;
+  // Refunds the full amount when amountInCents is omitted.
+  refundCheckoutSession(id: string, amountInCents?: number): Promise<void>;
+  // Throws when the payload was not signed by the provider.
+  verifyWebhook(body: string, headers: Headers): Promise<PaymentEvent>;
+}
+
+export const CHECKOUT_SESSION_ID_PLACEHOLDER = "{CHECKOUT_SESSION_ID}";